@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { supabase } from "@/lib/supabase";
+import {
+  AGE_GROUPS,
+  ageGroupDobRange,
+  CATEGORY_GENDERS,
+  COMPETITION_SYSTEMS,
+  competitionYear,
+  DEFAULT_AGE_GROUP,
+  DEFAULT_COMPETITION_SYSTEM,
+  formatBirthYears,
+  OPEN_WEIGHT_LIMIT,
+  parseWeightRange,
+  templateCategories,
+  type AgeGroup,
+  type CategoryGender,
+  type CompetitionSystem,
+} from "@/lib/tournament";
+
+interface ApplyTemplateDialogProps {
+  eventId: string;
+  eventTitle: string;
+  weightCategory: string;
+  gender?: string;
+  // Titles of the event's sub-events, which are not created again
+  existingTitles: string[];
+  onCreated: () => void;
+}
+
+// Creates every sub-event of a standard weight-category list in one step.
+// Categories outside the event's weight range, and ones already created, are
+// shown but skipped.
+export default function ApplyTemplateDialog({
+  eventId,
+  eventTitle,
+  weightCategory,
+  gender,
+  existingTitles,
+  onCreated,
+}: ApplyTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [template, setTemplate] = useState({
+    gender: (gender === "Female" ? "Female" : "Male") as CategoryGender,
+    age_group: DEFAULT_AGE_GROUP,
+    event_end_date: "",
+    competition_system: DEFAULT_COMPETITION_SYSTEM,
+  });
+
+  const range = parseWeightRange(weightCategory);
+  const categories = templateCategories(
+    template.age_group,
+    template.gender,
+    range
+  ).map((entry) => ({
+    ...entry,
+    exists: existingTitles.includes(entry.category.title),
+  }));
+  const toCreate = categories.filter((entry) => entry.fits && !entry.exists);
+  const year = competitionYear(template);
+
+  const handleCreate = async () => {
+    if (!template.event_end_date) {
+      alert("Please enter the sub-event end date");
+      return;
+    }
+    if (toCreate.length === 0) {
+      alert("No categories of this template can be created for this event");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { error } = await supabase.from("sub_events").insert(
+        toCreate.map(({ category }) => ({
+          event_id: eventId,
+          title: category.title,
+          min_weight: category.min_weight,
+          max_weight: category.max_weight,
+          dob_range: ageGroupDobRange(template.age_group, year),
+          event_date: new Date().toISOString().split("T")[0],
+          event_end_date: template.event_end_date,
+          competition_system: template.competition_system,
+          age_group: template.age_group,
+          bout_duration: null,
+        }))
+      );
+
+      if (error) {
+        console.error("Error creating sub-events:", error);
+        alert("Failed to create sub-events: " + error.message);
+        return;
+      }
+
+      setOpen(false);
+      onCreated();
+    } catch (error) {
+      console.error("Error:", error);
+      alert("An unexpected error occurred");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Apply Template</Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Weight-Category Template for {eventTitle}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template_gender">Gender</Label>
+              <Select
+                value={template.gender}
+                onValueChange={(value) =>
+                  setTemplate((prev) => ({
+                    ...prev,
+                    gender: value as CategoryGender,
+                  }))
+                }
+              >
+                <SelectTrigger id="template_gender">
+                  <SelectValue placeholder="Select gender" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_GENDERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_age_group">Age Group</Label>
+              <Select
+                value={template.age_group}
+                onValueChange={(value) =>
+                  setTemplate((prev) => ({
+                    ...prev,
+                    age_group: value as AgeGroup,
+                  }))
+                }
+              >
+                <SelectTrigger id="template_age_group">
+                  <SelectValue placeholder="Select age group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGE_GROUPS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template_event_end_date">Sub-Event End Date</Label>
+            <Input
+              id="template_event_end_date"
+              type="date"
+              value={template.event_end_date}
+              onChange={(e) =>
+                setTemplate((prev) => ({
+                  ...prev,
+                  event_end_date: e.target.value,
+                }))
+              }
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Athletes {formatBirthYears(template.age_group, year)} (competition
+              year {year})
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template_competition_system">
+              Competition System
+            </Label>
+            <Select
+              value={template.competition_system}
+              onValueChange={(value) =>
+                setTemplate((prev) => ({
+                  ...prev,
+                  competition_system: value as CompetitionSystem,
+                }))
+              }
+            >
+              <SelectTrigger id="template_competition_system">
+                <SelectValue placeholder="Select competition system" />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPETITION_SYSTEMS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              Categories{range ? ` (event range ${range.min}–${range.max} kg)` : ""}
+            </p>
+            <ul className="text-sm space-y-1">
+              {categories.map(({ category, fits, exists }) => (
+                <li
+                  key={category.title}
+                  className={`flex justify-between gap-2 ${
+                    fits && !exists ? "" : "text-muted-foreground"
+                  }`}
+                >
+                  <span>{category.title}</span>
+                  <span className="text-xs">
+                    {category.max_weight === OPEN_WEIGHT_LIMIT
+                      ? `over ${category.min_weight}`
+                      : category.min_weight === 0
+                        ? `up to ${category.max_weight}`
+                        : `${category.min_weight}–${category.max_weight}`}{" "}
+                    kg
+                    {!fits && " · outside the event range"}
+                    {fits && exists && " · already created"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            onClick={handleCreate}
+            disabled={creating || toCreate.length === 0}
+          >
+            Create {toCreate.length} Sub-Event{toCreate.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,13 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -15,7 +22,26 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { supabase } from "@/lib/supabase";
+import {
+  AGE_GROUPS,
+  ageGroupDobRange,
+  ageGroupLabel,
+  COMPETITION_SYSTEMS,
+  competitionSystemLabel,
+  DEFAULT_AGE_GROUP,
+  competitionYear,
+  DEFAULT_COMPETITION_SYSTEM,
+  formatBirthYears,
+  fitsWeightRange,
+  formatClock,
+  OPEN_WEIGHT_LIMIT,
+  parseWeightRange,
+  regulationTime,
+  type AgeGroup,
+  type CompetitionSystem,
+} from "@/lib/tournament";
 import Link from "next/link";
+import ApplyTemplateDialog from "./ApplyTemplateDialog";
 
 interface Player {
   id: string;
@@ -31,18 +57,26 @@ interface SubEvent {
   max_weight: number;
   participants_count: number;
   created_at: string;
+  competition_system?: CompetitionSystem;
+  age_group?: AgeGroup | null;
+  dob_range?: string | null;
+  bout_duration?: number | null;
+  event_date?: string | null;
+  event_end_date?: string | null;
 }
 
 interface SubEventsProps {
   eventId: string;
   eventTitle: string;
   weightCategory: string;
+  gender?: string;
 }
 
 export default function SubEvents({
   eventId,
   eventTitle,
   weightCategory,
+  gender,
 }: SubEventsProps) {
   const [subEvents, setSubEvents] = useState<SubEvent[]>([]);
   const [loading, setLoading] = useState(true);
@@ -50,9 +84,11 @@ export default function SubEvents({
     title: "",
     min_weight: "",
     max_weight: "",
-    dob_start: "",
-    dob_end: "",
     event_end_date: "",
+    competition_system: DEFAULT_COMPETITION_SYSTEM,
+    age_group: DEFAULT_AGE_GROUP,
+    // Minutes; left empty for the age group's regulation time
+    bout_duration: "",
   });
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
@@ -122,8 +158,8 @@ export default function SubEvents({
       alert("Please fill all fields");
       return;
     }
-    if (!newSubEvent.dob_start || !newSubEvent.dob_end) {
-      alert("Please enter both start and end dates for DOB range");
+    if (!newSubEvent.event_end_date) {
+      alert("Please enter the sub-event end date");
       return;
     }
 
@@ -132,19 +168,18 @@ export default function SubEvents({
       const minWeight = parseFloat(newSubEvent.min_weight);
       const maxWeight = parseFloat(newSubEvent.max_weight);
 
-      const eventRange = weightCategory.match(/(\d+)[-\s]*(\d+)/);
-      if (eventRange) {
-        const eventMin = parseInt(eventRange[1]);
-        const eventMax = parseInt(eventRange[2]);
-
-        if (minWeight < eventMin || maxWeight > eventMax) {
-          alert(
-            `Sub-event weight must be within main event range (${eventMin}–${eventMax} kg)`
-          );
-          return;
-        }
+      const eventRange = parseWeightRange(weightCategory);
+      if (
+        eventRange &&
+        !fitsWeightRange({ min_weight: minWeight, max_weight: maxWeight }, eventRange)
+      ) {
+        alert(
+          `Sub-event weight must overlap the main event range (${eventRange.min}–${eventRange.max} kg)`
+        );
+        return;
       }
 
+      const newYear = competitionYear(newSubEvent);
       const { data, error } = await supabase
         .from("sub_events")
         .insert([
@@ -153,9 +188,15 @@ export default function SubEvents({
             title: newSubEvent.title,
             min_weight: minWeight,
             max_weight: maxWeight,
-            dob_range: `[${newSubEvent.dob_start},${newSubEvent.dob_end}]`,
+            // Kept in step with the age group for the competition year
+            dob_range: ageGroupDobRange(newSubEvent.age_group, newYear),
             event_date: new Date().toISOString().split("T")[0],
             event_end_date: newSubEvent.event_end_date,
+            competition_system: newSubEvent.competition_system,
+            age_group: newSubEvent.age_group,
+            bout_duration: newSubEvent.bout_duration
+              ? Math.round(parseFloat(newSubEvent.bout_duration) * 60)
+              : null,
           },
         ])
         .select();
@@ -168,9 +209,10 @@ export default function SubEvents({
           title: "",
           min_weight: "",
           max_weight: "",
-          dob_start: "",
-          dob_end: "",
           event_end_date: "",
+          competition_system: DEFAULT_COMPETITION_SYSTEM,
+          age_group: DEFAULT_AGE_GROUP,
+          bout_duration: "",
         });
         setIsDialogOpen(false);
         fetchSubEvents();
@@ -183,8 +225,16 @@ export default function SubEvents({
 
   return (
     <Card className="p-6">
-      <div className="flex justify-between items-center mb-6">
-        <h3 className="text-xl font-bold">Sub-Events by Precise Weights</h3>
+      <div className="flex justify-between items-center gap-2 mb-6">
+        <h3 className="text-xl font-bold mr-auto">Sub-Events by Precise Weights</h3>
+        <ApplyTemplateDialog
+          eventId={eventId}
+          eventTitle={eventTitle}
+          weightCategory={weightCategory}
+          gender={gender}
+          existingTitles={subEvents.map((subEvent) => subEvent.title)}
+          onCreated={fetchSubEvents}
+        />
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
             <Button>Create Sub-Event</Button>
@@ -235,45 +285,100 @@ export default function SubEvents({
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="dob_start">DOB Start Date</Label>
+                <Label htmlFor="event_end_date">Sub-Event End Date</Label>
                 <Input
-                  id="dob_start"
-                  name="dob_start"
+                  id="event_end_date"
+                  name="event_end_date"
                   type="date"
-                  value={newSubEvent.dob_start}
+                  value={newSubEvent.event_end_date}
                   onChange={handleChange}
-                  placeholder="Start Date of Birth"
+                  placeholder="End Date of Sub-Event"
                   required
                 />
+                <p className="text-xs text-muted-foreground">
+                  Select date for the end of the sub-event; its year is the
+                  competition year for the age group
+                </p>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="dob_end">DOB End Date</Label>
-                <Input
-                  id="dob_end"
-                  name="dob_end"
-                  type="date"
-                  value={newSubEvent.dob_end}
-                  onChange={handleChange}
-                  placeholder="End Date of Birth"
-                  required
-                />
+                <Label htmlFor="competition_system">Competition System</Label>
+                <Select
+                  value={newSubEvent.competition_system}
+                  onValueChange={(value) =>
+                    setNewSubEvent((prev) => ({
+                      ...prev,
+                      competition_system: value as CompetitionSystem,
+                    }))
+                  }
+                >
+                  <SelectTrigger id="competition_system">
+                    <SelectValue placeholder="Select competition system" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPETITION_SYSTEMS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <p className="text-xs text-muted-foreground">
-                  Select date range for participants' birth dates
+                  {
+                    COMPETITION_SYSTEMS.find(
+                      (option) =>
+                        option.value === newSubEvent.competition_system
+                    )?.description
+                  }
                 </p>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="event_end_date">Sub-Event End Date</Label>
+                <Label htmlFor="age_group">Age Group</Label>
+                <Select
+                  value={newSubEvent.age_group}
+                  onValueChange={(value) =>
+                    setNewSubEvent((prev) => ({
+                      ...prev,
+                      age_group: value as AgeGroup,
+                    }))
+                  }
+                >
+                  <SelectTrigger id="age_group">
+                    <SelectValue placeholder="Select age group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AGE_GROUPS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Athletes{" "}
+                  {formatBirthYears(
+                    newSubEvent.age_group,
+                    competitionYear(newSubEvent)
+                  )}{" "}
+                  (competition year {competitionYear(newSubEvent)})
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bout_duration">Bout Time (minutes)</Label>
                 <Input
-                  id="event_end_date"
-                  name="event_end_date"
-                  type="date"
-                  value={newSubEvent.event_end_date}
+                  id="bout_duration"
+                  name="bout_duration"
+                  type="number"
+                  step="0.5"
+                  min="0.5"
+                  value={newSubEvent.bout_duration}
                   onChange={handleChange}
-                  placeholder="End Date of Sub-Event"
-                  required
+                  placeholder={`${
+                    regulationTime({ age_group: newSubEvent.age_group }) / 60
+                  }`}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Select date for the end of the sub-event
+                  Regulation time of each bout; leave empty for the age
+                  group&apos;s default
                 </p>
               </div>
             </div>
@@ -312,7 +417,26 @@ export default function SubEvents({
                 <h4 className="font-semibold">{subEvent.title}</h4>
                 <p className="text-sm text-muted-foreground">
                   Weight Range: {subEvent.min_weight.toFixed(1)}kg –{" "}
-                  {subEvent.max_weight.toFixed(1)}kg
+                  {subEvent.max_weight >= OPEN_WEIGHT_LIMIT
+                    ? "open"
+                    : `${subEvent.max_weight.toFixed(1)}kg`}
+                </p>
+
+                <p className="text-sm text-muted-foreground">
+                  System:{" "}
+                  {competitionSystemLabel(
+                    subEvent.competition_system || DEFAULT_COMPETITION_SYSTEM
+                  )}
+                </p>
+
+                <p className="text-sm text-muted-foreground">
+                  {subEvent.age_group
+                    ? `${ageGroupLabel(subEvent.age_group)}, ${formatBirthYears(
+                        subEvent.age_group,
+                        competitionYear(subEvent)
+                      )}`
+                    : `Born ${subEvent.dob_range || "any year"}`}{" "}
+                  · Bout time {formatClock(regulationTime(subEvent))}
                 </p>
 
                 <p className="text-sm mb-4">
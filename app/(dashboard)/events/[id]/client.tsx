@@ -1,10 +1,12 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/lib/supabase';
+import { fetchStoredDraw, lockDraw, saveDraw, type StoredDraw } from '@/lib/draws';
+import { buildBracket, createSeed, findResult, groupStageId, hydrateDraw, makeDraw } from '@/lib/tournament';
 import { useParams } from 'next/navigation';
 import { Separator } from '@/components/ui/separator';
 import Link from 'next/link';
@@ -20,14 +22,6 @@ interface Player {
   weight_category: string;
 }
 
-interface Pool {
-  name: string;
-  groups: {
-    name: string;
-    players: Player[];
-  }[];
-}
-
 interface MatchResult {
   id: string;
   player1_id: string;
@@ -36,14 +30,6 @@ interface MatchResult {
   match_stage: string;
 }
 
-interface KnockoutMatch {
-  id: string;
-  player1?: Player;
-  player2?: Player;
-  winner_id?: string;
-  stage: string;
-}
-
 interface SummaryResult {
   id: string;
   group_name: string;
@@ -65,15 +51,21 @@ export function EventMatchPlannerPage() {
   const params = useParams();
   const [event, setEvent] = useState<any>(null);
   const [players, setPlayers] = useState<Player[]>([]);
-  const [pools, setPools] = useState<Pool[]>([]);
+  const [storedDraw, setStoredDraw] = useState<StoredDraw | null>(null);
   const [loading, setLoading] = useState(true);
   const [matchResults, setMatchResults] = useState<MatchResult[]>([]);
   const [selectedWinners, setSelectedWinners] = useState<Record<string, string>>({});
-  const [poolKnockoutMatches, setPoolKnockoutMatches] = useState<Record<string, KnockoutMatch[]>>({});
-  const [finalMatch, setFinalMatch] = useState<KnockoutMatch | null>(null);
   const [thirdPlaceSelections, setThirdPlaceSelections] = useState<Record<string, string>>({});
   const [summaryResults, setSummaryResults] = useState<SummaryResult[]>([]);
   const [clubbedResults, setClubbedResults] = useState<ClubbedResult[]>([]);
+  // No draw is shown until one has been made and stored
+  const pools = useMemo(
+    () => (storedDraw ? hydrateDraw(storedDraw.draw, players) : []),
+    [storedDraw, players]
+  );
+  const drawLocked = Boolean(storedDraw?.locked_at);
+  const bracket = useMemo(() => buildBracket(pools, matchResults), [pools, matchResults]);
+  const finalMatch = bracket.finalMatch;
 
   useEffect(() => {
     fetchEventAndPlayers();
@@ -108,13 +100,45 @@ export function EventMatchPlannerPage() {
     }
 
     setPlayers(playersData || []);
-    generatePools(playersData || []);
+
+    // The bracket is always rebuilt from the stored draw
+    try {
+      setStoredDraw(await fetchStoredDraw('event', params.id as string));
+    } catch (error) {
+      console.error('Error fetching draw:', error);
+    }
     setLoading(false);
     
     // After setting players, fetch results that depend on player data
     await fetchResults();
   }
 
+  async function handleMakeDraw() {
+    if (players.length < 2) {
+      alert('At least 2 participants are needed to make a draw');
+      return;
+    }
+
+    try {
+      const draw = makeDraw(players, createSeed());
+      setStoredDraw(await saveDraw('event', params.id as string, draw));
+    } catch (error) {
+      console.error('Error making draw:', error);
+      alert(error instanceof Error ? error.message : 'Failed to make draw');
+    }
+  }
+
+  async function handleLockDraw() {
+    if (!confirm('Lock the draw? Pools and pairings cannot be changed once locked.')) return;
+
+    try {
+      setStoredDraw(await lockDraw('event', params.id as string));
+    } catch (error) {
+      console.error('Error locking draw:', error);
+      alert(error instanceof Error ? error.message : 'Failed to lock draw');
+    }
+  }
+
   async function fetchMatchResults() {
     if (!params.id) return;
 
@@ -129,11 +153,6 @@ export function EventMatchPlannerPage() {
     }
 
     setMatchResults(data || []);
-    
-    // After loading match results, organize knockout stages
-    if (data && data.length > 0) {
-      generateKnockoutMatches();
-    }
   }
 
   async function saveMatchResult(groupName: string, player1Id: string, player2Id: string, winnerId: string) {
@@ -156,62 +175,6 @@ export function EventMatchPlannerPage() {
     }
 
     setMatchResults([...matchResults, ...(data || [])]);
-    
-    // After saving a match result, reorganize knockout stages
-    generateKnockoutMatches();
-  }
-
-  function generatePools(players: Player[]) {
-    const shuffledPlayers = [...players].sort(() => Math.random() - 0.5);
-    const midPoint = Math.ceil(shuffledPlayers.length / 2);
-    const poolAPlayers = shuffledPlayers.slice(0, midPoint);
-    const poolBPlayers = shuffledPlayers.slice(midPoint);
-
-    const poolA = createPoolGroups(poolAPlayers, 'A');
-    const poolB = createPoolGroups(poolBPlayers, 'B');
-
-    setPools([poolA, poolB]);
-  }
-
-  function createPoolGroups(players: Player[], poolName: string): Pool {
-    const groups = [];
-    let currentPlayers = [...players];
-    let groupIndex = 0;
-    
-    // Get pool number for hierarchical naming (A=1, B=2)
-    const poolNumber = poolName === 'A' ? 1 : 2;
-
-    while (currentPlayers.length > 0) {
-      // Create hierarchical group name (e.g., 1.1, 1.2 for Pool A; 2.1, 2.2 for Pool B)
-      const groupName = `${poolNumber}.${groupIndex + 1}`;
-      
-      const group = {
-        name: groupName,
-        players: [] as Player[]
-      };
-
-      group.players.push(currentPlayers[0]);
-      currentPlayers = currentPlayers.slice(1);
-
-      if (currentPlayers.length > 0) {
-        const differentStatePlayerIndex = currentPlayers.findIndex(
-          p => p.association !== group.players[0].association
-        );
-
-        if (differentStatePlayerIndex !== -1) {
-          group.players.push(currentPlayers[differentStatePlayerIndex]);
-          currentPlayers = currentPlayers.filter((_, i) => i !== differentStatePlayerIndex);
-        }
-      }
-
-      groups.push(group);
-      groupIndex++;
-    }
-
-    return {
-      name: `Pool ${poolName}`,
-      groups
-    };
   }
 
   function handleWinnerSelection(groupId: string, winnerId: string) {
@@ -233,172 +196,9 @@ export function EventMatchPlannerPage() {
   }
 
   function getMatchResult(pool: string, groupName: string) {
-    // Create the match stage ID using the hierarchical format
-    const matchStageId = `${pool}-${groupName}`;
-    return matchResults.find(result => result.match_stage === matchStageId);
+    return findResult(matchResults, groupStageId(pool, groupName));
   }
 
-  // New functions for knockout stages
-  
-  function generateKnockoutMatches() {
-    const poolAMatches: KnockoutMatch[] = [];
-    const poolBMatches: KnockoutMatch[] = [];
-    
-    // Get group winners for Pool A
-    const poolAWinners = getPoolWinners('Pool A');
-    
-    // Get group winners for Pool B  
-    const poolBWinners = getPoolWinners('Pool B');
-    
-    // Recursive function to create matches for a pool until we have a winner
-    function createKnockoutMatchesForPool(
-      poolPlayers: Player[], 
-      poolName: string,
-      matchesArray: KnockoutMatch[]
-    ) {
-      if (poolPlayers.length <= 1) {
-        return; // We have a winner or no players
-      }
-      
-      // For odd number of players, the first player gets a bye to the next round
-      const remainingPlayers = [...poolPlayers];
-      const nextRoundPlayers: Player[] = [];
-      
-      // Keep track of which round we're in
-      const roundIndex = matchesArray.length > 0 ? 
-        Math.floor(matchesArray.length / Math.ceil(poolPlayers.length / 2)) + 1 : 1;
-      
-      // If odd number of players, first player gets a bye
-      if (remainingPlayers.length % 2 !== 0) {
-        nextRoundPlayers.push(remainingPlayers.shift()!);
-      }
-      
-      // Create matches for this round
-      while (remainingPlayers.length > 0) {
-        const player1 = remainingPlayers.shift();
-        const player2 = remainingPlayers.shift();
-        
-        if (player1 && player2) {
-          // Use pool number for hierarchical naming (A=1, B=2)
-          const poolNumber = poolName === 'A' ? 1 : 2;
-          const matchId = `knockout-${poolNumber}.${roundIndex}-match${matchesArray.length}`;
-          
-          const existingResult = matchResults.find(r => r.match_stage === matchId);
-          
-          const match: KnockoutMatch = {
-            id: matchId,
-            player1,
-            player2,
-            winner_id: existingResult?.winner_id,
-            stage: `Round ${roundIndex} Match ${matchesArray.length + 1}`
-          };
-          
-          matchesArray.push(match);
-          
-          // If we have a winner for this match, add them to the next round
-          if (existingResult?.winner_id) {
-            const winner = players.find(p => p.id === existingResult.winner_id);
-            if (winner) {
-              nextRoundPlayers.push(winner);
-            }
-          }
-        }
-      }
-      
-      // If we have players for the next round, continue creating matches
-      if (nextRoundPlayers.length > 1) {
-        createKnockoutMatchesForPool(nextRoundPlayers, poolName, matchesArray);
-      }
-    }
-    
-    // Create knockout matches for each pool
-    createKnockoutMatchesForPool(poolAWinners, 'A', poolAMatches);
-    createKnockoutMatchesForPool(poolBWinners, 'B', poolBMatches);
-    
-    // Update state with knockout matches
-    setPoolKnockoutMatches({
-      'Pool A': poolAMatches,
-      'Pool B': poolBMatches
-    });
-    
-    // Create final match between Pool A winner and Pool B winner
-    const poolAFinalWinner = getPoolFinalWinner('Pool A');
-    const poolBFinalWinner = getPoolFinalWinner('Pool B');
-    
-    if (poolAFinalWinner && poolBFinalWinner) {
-      const existingFinalResult = matchResults.find(r => r.match_stage === 'final');
-      
-      setFinalMatch({
-        id: 'final',
-        player1: poolAFinalWinner,
-        player2: poolBFinalWinner,
-        winner_id: existingFinalResult?.winner_id,
-        stage: 'Final'
-      });
-    }
-  }
-  
-  function getPoolWinners(poolName: string): Player[] {
-    const pool = pools.find(p => p.name === poolName);
-    if (!pool) return [];
-    
-    return pool.groups
-      .map(group => {
-        const matchResult = getMatchResult(poolName, group.name);
-        if (matchResult) {
-          return players.find(p => p.id === matchResult.winner_id);
-        } else if (group.players.length === 1) {
-          // Auto-qualified player
-          return group.players[0];
-        }
-        return undefined;
-      })
-      .filter((player): player is Player => player !== undefined);
-  }
-  
-  function getPoolFinalWinner(poolName: string): Player | undefined {
-    const poolWinners = getPoolWinners(poolName);
-    if (poolWinners.length === 0) return undefined;
-    
-    const knockoutMatches = poolKnockoutMatches[poolName] || [];
-    if (knockoutMatches.length === 0) {
-      // If there are no knockout matches but we have a winner (only one player in the pool)
-      return poolWinners.length === 1 ? poolWinners[0] : undefined;
-    }
-    
-    // Find the last knockout match with a winner
-    const completedMatches = knockoutMatches.filter(m => m.winner_id);
-    if (completedMatches.length === 0) return undefined;
-    
-    // In a properly structured tournament, the last match winner is the pool winner
-    const finalRoundMatches = knockoutMatches.filter(match => {
-      // Count how many times this player appears in other matches as player1 or player2
-      const player1AppearanceCount = knockoutMatches.filter(m => 
-        m.player1?.id === match.player1?.id || m.player2?.id === match.player1?.id
-      ).length;
-      
-      const player2AppearanceCount = knockoutMatches.filter(m => 
-        m.player1?.id === match.player2?.id || m.player2?.id === match.player2?.id
-      ).length;
-      
-      // If both players only appear once, this is likely a first-round match
-      // If either player appears more than once, this is a later-round match
-      return player1AppearanceCount > 1 || player2AppearanceCount > 1;
-    });
-    
-    if (finalRoundMatches.length > 0) {
-      // Use the last match with a winner from the final round
-      const finalMatch = finalRoundMatches.find(m => m.winner_id);
-      if (finalMatch?.winner_id) {
-        return players.find(p => p.id === finalMatch.winner_id);
-      }
-    }
-    
-    // Fallback: use the last completed match's winner
-    const lastCompletedMatch = completedMatches[completedMatches.length - 1];
-    return players.find(p => p.id === lastCompletedMatch.winner_id);
-  }
-  
   async function handleKnockoutWinnerSelection(matchId: string, winnerId: string, player1Id: string, player2Id: string) {
     await saveMatchResult(matchId, player1Id, player2Id, winnerId);
   }
@@ -533,6 +333,9 @@ export function EventMatchPlannerPage() {
       <div className="flex justify-between items-center">
         <h2 className="text-3xl font-bold">{event?.title}</h2>
         <div className="flex gap-2">
+          <Link href={`/events/${params.id}/weigh-in`}>
+            <Button variant="outline">Weigh-in</Button>
+          </Link>
           <Link href="/events">
             <Button variant="outline">Back to Events</Button>
           </Link>
@@ -550,6 +353,58 @@ export function EventMatchPlannerPage() {
         </div>
       </Card>
 
+      <Card className="p-4">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h3 className="font-semibold">Draw</h3>
+            {!storedDraw ? (
+              <p className="text-sm text-gray-600">No draw has been made yet</p>
+            ) : drawLocked ? (
+              <p className="text-sm text-green-600">
+                Locked on {new Date(storedDraw.locked_at!).toLocaleString()}
+              </p>
+            ) : (
+              <p className="text-sm text-yellow-700">
+                Draft draw – lock it before recording results
+              </p>
+            )}
+          </div>
+          {!drawLocked && (
+            <div className="flex gap-2">
+              <Button
+                variant={storedDraw ? 'outline' : 'default'}
+                onClick={handleMakeDraw}
+                disabled={players.length < 2}
+              >
+                {storedDraw ? 'Redraw' : 'Make Draw'}
+              </Button>
+              {storedDraw && (
+                <Button onClick={handleLockDraw}>Lock Draw</Button>
+              )}
+            </div>
+          )}
+        </div>
+        {pools.length > 0 && (
+          <div className="grid md:grid-cols-2 gap-4 mt-4">
+            {pools.map(pool => (
+              <div key={pool.name}>
+                <h4 className="font-medium mb-2">{pool.name}</h4>
+                <ul className="space-y-1 text-sm text-gray-700">
+                  {pool.groups.map(group => (
+                    <li key={group.name}>
+                      <span className="font-semibold">{group.name}:</span>{' '}
+                      {group.players.length === 1
+                        ? `${group.players[0].name} – Bye`
+                        : group.players.map(player => player.name).join(' vs ') || 'Empty'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
       {/* Sub-Events Section */}
       <h2 className="text-xl font-bold mb-4">Sub-Event Management</h2>
       {event && (
@@ -557,6 +412,7 @@ export function EventMatchPlannerPage() {
           eventId={params.id as string} 
           eventTitle={event.title} 
           weightCategory={event.weight_category} 
+          gender={event.gender}
         />
       )}
     </div>
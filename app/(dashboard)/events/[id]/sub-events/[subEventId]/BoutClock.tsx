@@ -0,0 +1,44 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { formatClock, type ClockPhase } from '@/lib/tournament';
+
+interface BoutClockProps {
+  // Seconds fought so far and the regulation time of the bout
+  elapsed: number;
+  regulation: number;
+  phase: ClockPhase;
+  running: boolean;
+  disabled?: boolean;
+  onStart: () => void;
+  onPause: () => void;
+}
+
+// Mat-side clock: counts the regulation time down, then counts golden score up
+export default function BoutClock({ elapsed, regulation, phase, running, disabled, onStart, onPause }: BoutClockProps) {
+  return (
+    <div
+      className={`flex items-center justify-between rounded-lg border p-4 ${
+        phase === 'golden_score' ? 'border-yellow-400 bg-yellow-50' : phase === 'time_up' ? 'bg-gray-50' : ''
+      }`}
+    >
+      <div>
+        <p className="text-xs font-medium uppercase text-gray-500">
+          {phase === 'golden_score' ? 'Golden score' : phase === 'time_up' ? 'Time up' : `Regulation ${formatClock(regulation)}`}
+        </p>
+        <p className="text-4xl font-bold tabular-nums">
+          {phase === 'golden_score'
+            ? `+${formatClock(elapsed - regulation)}`
+            : formatClock(Math.ceil(regulation - elapsed))}
+        </p>
+      </div>
+      {running ? (
+        <Button variant="outline" onClick={onPause}>Pause</Button>
+      ) : (
+        <Button onClick={onStart} disabled={disabled || phase === 'time_up'}>
+          {elapsed > 0 ? 'Resume' : 'Start'}
+        </Button>
+      )}
+    </div>
+  );
+}
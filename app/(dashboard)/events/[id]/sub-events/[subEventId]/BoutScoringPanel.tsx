@@ -0,0 +1,534 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useScoreboardFeed } from '@/hooks/use-scoreboard-feed';
+import { MATS, type LiveBout } from '@/lib/scoreboard';
+import {
+  actionForKey,
+  applyConsoleAction,
+  athleteInJacket,
+  bindingForAction,
+  BOUT_JACKETS,
+  clockPhase,
+  deriveWinType,
+  deriveWinner,
+  disqualifiedAthlete,
+  formatKey,
+  formatPenalties,
+  formatScore,
+  isBoutOver,
+  isPenalty,
+  JACKET_LABELS,
+  KEY_BINDINGS,
+  nextPenalty,
+  opponentOf,
+  PENALTY_LABELS,
+  penaltiesOf,
+  regulationTime as defaultRegulationTime,
+  SCORE_LABELS,
+  tallyScores,
+  WIN_TYPE_LABELS,
+  type Athlete,
+  type BoutEvent,
+  type BoutJackets,
+  type BoutOutcome,
+  type ConsoleAction,
+  type ConsoleLogEntry,
+  type Participant,
+  type ScoreKind,
+  type WinType
+} from '@/lib/tournament';
+import BoutClock from './BoutClock';
+import JacketBadge from './JacketBadge';
+
+interface BoutScoringPanelProps {
+  title: string;
+  player1: Participant;
+  player2: Participant;
+  jackets?: BoutJackets;
+  onSave: (winnerId: string, outcome: BoutOutcome) => Promise<void> | void;
+  // Regulation bout time in seconds for the sub-event's age group
+  regulationTime?: number;
+  disabled?: boolean;
+  triggerLabel?: string;
+}
+
+const SCORE_KINDS: ScoreKind[] = ['halol', 'yonbosh', 'chala'];
+
+// The mat this device scores on is remembered between bouts
+const MAT_STORAGE_KEY = 'scoreboard-mat';
+
+// Key hint shown on a console button, e.g. "(Shift+R)"
+function keyHint(action: ConsoleAction) {
+  const binding = bindingForAction(action);
+  return binding ? ` (${formatKey(binding)})` : '';
+}
+
+// Score sheet for one bout. Referees award Halol, Yonbosh and Chala, and
+// penalties, as they happen; the winner and win type follow from the scores
+// and are saved with the breakdown and the time on the bout clock. A bout that
+// is not fought to the end is recorded as a walkover or medical withdrawal.
+// While the sheet is open it drives the scoreboard of the chosen mat.
+//
+// The sheet doubles as the table officials' console: every score, penalty,
+// undo, clock and confirm has a single key (see KEY_BINDINGS), "/" or Ctrl+K
+// opens a palette of all of them, and every input is logged and saved with
+// the result so the sheet can be replayed.
+export default function BoutScoringPanel({
+  title,
+  player1,
+  player2,
+  jackets = BOUT_JACKETS,
+  onSave,
+  regulationTime = defaultRegulationTime({}),
+  disabled,
+  triggerLabel = 'Score Bout'
+}: BoutScoringPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<BoutEvent[]>([]);
+  const [saving, setSaving] = useState(false);
+  // Milliseconds on the clock before the current run, and when that run started
+  const [clockBefore, setClockBefore] = useState(0);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [goldenScore, setGoldenScore] = useState(false);
+  const [mat, setMat] = useState(MATS[0]);
+  // Set when the result is saved, so the scoreboard keeps showing it
+  const [savedResult, setSavedResult] = useState<LiveBout['result']>();
+  // Scoreboards are only fed once this sheet has been opened
+  const [feeding, setFeeding] = useState(false);
+  const [log, setLog] = useState<ConsoleLogEntry[]>([]);
+  const [openedAt, setOpenedAt] = useState(0);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const breakdown = tallyScores(events);
+  const leader = deriveWinner(breakdown);
+  const over = isBoutOver(breakdown);
+  const disqualified = disqualifiedAthlete(breakdown);
+  const athletes: [Athlete, Participant][] = [['player1', player1], ['player2', player2]];
+  const winner = leader && (leader === 'player1' ? player1 : player2);
+  const elapsed = (clockBefore + (startedAt === null ? 0 : now - startedAt)) / 1000;
+  const phase = clockPhase(elapsed, regulationTime, !leader);
+  const scoringClosed = over || phase === 'time_up';
+
+  const liveBout = useMemo((): LiveBout | null | undefined => {
+    if (!feeding) return undefined;
+    if (!open && !savedResult) return null;
+
+    const running = startedAt !== null;
+    return {
+      title,
+      player1: { name: player1.name, association: player1.association },
+      player2: { name: player2.name, association: player2.association },
+      jackets,
+      breakdown: tallyScores(events),
+      clock: {
+        elapsed: (clockBefore + (running ? Date.now() - startedAt : 0)) / 1000,
+        running,
+        regulation: regulationTime
+      },
+      result: savedResult
+    };
+  }, [feeding, open, savedResult, startedAt, title, player1, player2, jackets, events, clockBefore, regulationTime]);
+
+  useScoreboardFeed(mat, liveBout);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(MAT_STORAGE_KEY);
+    if (stored && MATS.includes(stored)) setMat(stored);
+  }, []);
+
+  function handleMatChange(value: string) {
+    setMat(value);
+    localStorage.setItem(MAT_STORAGE_KEY, value);
+  }
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  useEffect(() => {
+    if (phase === 'golden_score') setGoldenScore(true);
+  }, [phase]);
+
+  // The clock stops when the bout is decided or regulation time runs out with
+  // an athlete ahead
+  useEffect(() => {
+    if (startedAt === null || !scoringClosed) return;
+    const run = clockBefore + Date.now() - startedAt;
+    setClockBefore(phase === 'time_up' && !goldenScore ? Math.min(run, regulationTime * 1000) : run);
+    setStartedAt(null);
+  }, [startedAt, scoringClosed, phase, goldenScore, clockBefore, regulationTime]);
+
+  function startClock() {
+    const time = Date.now();
+    setNow(time);
+    setStartedAt(time);
+  }
+
+  function pauseClock() {
+    if (startedAt === null) return;
+    setClockBefore(prev => prev + Date.now() - startedAt);
+    setStartedAt(null);
+  }
+
+  function logEntry(input: string, action: ConsoleAction | undefined, applied: boolean): ConsoleLogEntry {
+    return { input, at: Date.now() - openedAt, clock: Math.round(elapsed), action, applied };
+  }
+
+  // Runs a console action from a key, a click or the palette and logs it;
+  // unbound keys are logged with no action
+  function perform(action: ConsoleAction | undefined, input: string) {
+    let applied = false;
+    if (!action) {
+      applied = false;
+    } else if (action.kind === 'award') {
+      applied = !scoringClosed;
+    } else if (action.kind === 'undo') {
+      applied = events.length > 0;
+    } else if (action.kind === 'clock') {
+      applied = !over;
+    } else if (action.kind === 'confirm') {
+      applied = !!winner && !saving;
+    }
+    const entry = logEntry(input, action, applied);
+    setLog(prev => [...prev, entry]);
+    if (!action || !applied) return;
+
+    if (action.kind === 'clock') {
+      if (startedAt === null) startClock();
+      else pauseClock();
+    } else if (action.kind === 'confirm') {
+      // The log state is not updated yet, so the entry is saved with it here
+      handleSave([...log, entry]);
+    } else {
+      setEvents(prev => applyConsoleAction(prev, action, jackets));
+    }
+  }
+
+  // The key listener is registered once per opening, so it reads the latest
+  // perform through a ref
+  const performRef = useRef(perform);
+  performRef.current = perform;
+
+  useEffect(() => {
+    if (!open || paletteOpen) return;
+
+    function handleKeyDown(event: KeyboardEvent) {
+      // A held key repeats; it scores once
+      if (event.repeat || event.altKey) return;
+      if ((event.ctrlKey || event.metaKey) && event.key === 'k') {
+        event.preventDefault();
+        setPaletteOpen(true);
+        return;
+      }
+      if (event.ctrlKey || event.metaKey) return;
+      if (event.key === '/') {
+        event.preventDefault();
+        setPaletteOpen(true);
+        return;
+      }
+      if (['Shift', 'Control', 'Meta', 'Alt', 'Tab', 'Escape'].includes(event.key)) return;
+
+      const action = actionForKey(event.key, event.shiftKey);
+      // Keep Space and Enter from also pressing the focused button
+      if (action) event.preventDefault();
+      performRef.current(action, formatKey({ key: event.key, shift: event.shiftKey }));
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [open, paletteOpen]);
+
+  function playerOf(athlete: Athlete) {
+    return athlete === 'player1' ? player1 : player2;
+  }
+
+  function nameOf(athlete: Athlete) {
+    return playerOf(athlete).name;
+  }
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) {
+      setFeeding(true);
+      setSavedResult(undefined);
+      setEvents([]);
+      setClockBefore(0);
+      setStartedAt(null);
+      setGoldenScore(false);
+      setLog([]);
+      setOpenedAt(Date.now());
+    }
+  }
+
+  async function save(winnerId: string, winType: WinType, inputs: ConsoleLogEntry[]) {
+    setSaving(true);
+    setSavedResult({ winner: winnerId === player1.id ? 'player1' : 'player2', winType });
+    try {
+      const duration = Math.round(elapsed);
+      const sheet = duration > 0 ? { ...breakdown, duration, goldenScore } : breakdown;
+      await onSave(winnerId, { winType, breakdown: winType === 'walkover' ? null : sheet, log: inputs });
+      setOpen(false);
+    } catch (error) {
+      // onSave has reported the failure; the sheet stays open to save again.
+      // Not re-thrown: save is started from key presses and clicks, which
+      // nothing awaits.
+      console.error('Error saving bout:', error);
+      setSavedResult(undefined);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSave(inputs = log) {
+    if (!winner) return;
+    await save(winner.id, deriveWinType(breakdown), inputs);
+  }
+
+  // Logged like any other click; a forfeit the official does not confirm is
+  // logged as not applied
+  async function handleForfeit(athlete: Athlete, winType: 'walkover' | 'medical_withdrawal') {
+    const message = `Record a ${WIN_TYPE_LABELS[winType].toLowerCase()}? ${nameOf(athlete)} loses the bout and takes no further part in the sub-event.`;
+    const entry = logEntry('click', { kind: 'forfeit', jacket: jackets[athlete], winType }, confirm(message) && !saving);
+    const inputs = [...log, entry];
+    setLog(inputs);
+    if (!entry.applied) return;
+    await save(playerOf(opponentOf(athlete)).id, winType, inputs);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="w-full" disabled={disabled}>{triggerLabel}</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-600">Scoreboard</span>
+          <Select value={mat} onValueChange={handleMatChange}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MATS.map(option => (
+                <SelectItem key={option} value={option}>Mat {option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Link href={`/scoreboard/${mat}`} target="_blank" className="text-blue-600 hover:underline">
+            Open scoreboard
+          </Link>
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setPaletteOpen(true)}>
+            Shortcuts <CommandShortcut>/</CommandShortcut>
+          </Button>
+        </div>
+
+        <BoutClock
+          elapsed={elapsed}
+          regulation={regulationTime}
+          phase={phase}
+          running={startedAt !== null}
+          disabled={over}
+          onStart={() => perform({ kind: 'clock' }, 'click')}
+          onPause={() => perform({ kind: 'clock' }, 'click')}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {athletes.map(([athlete, player]) => {
+            const penalties = penaltiesOf(breakdown, athlete);
+            return (
+              <div
+                key={athlete}
+                className={`border rounded-lg p-4 space-y-3 ${leader === athlete ? 'border-green-500 bg-green-50' : ''}`}
+              >
+                <div>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-semibold">{player.name}</p>
+                    <JacketBadge jacket={jackets[athlete]} />
+                  </div>
+                  <p className="text-sm text-gray-600">{player.association}</p>
+                </div>
+                <p className="text-lg font-bold">{formatScore(breakdown[athlete])}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {SCORE_KINDS.map(kind => (
+                    <Button
+                      key={kind}
+                      variant="outline"
+                      size="sm"
+                      disabled={scoringClosed}
+                      onClick={() => perform({ kind: 'award', jacket: jackets[athlete], award: kind }, 'click')}
+                    >
+                      {SCORE_LABELS[kind]}{keyHint({ kind: 'award', jacket: jackets[athlete], award: kind })}
+                    </Button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-700"
+                    disabled={scoringClosed}
+                    onClick={() => perform({ kind: 'award', jacket: jackets[athlete], award: 'penalty' }, 'click')}
+                  >
+                    Penalty ({PENALTY_LABELS[nextPenalty(penalties)]}){keyHint({ kind: 'award', jacket: jackets[athlete], award: 'penalty' })}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-700"
+                    disabled={scoringClosed}
+                    onClick={() => perform({ kind: 'award', jacket: jackets[athlete], award: 'girrom' }, 'click')}
+                  >
+                    {PENALTY_LABELS.girrom}{keyHint({ kind: 'award', jacket: jackets[athlete], award: 'girrom' })}
+                  </Button>
+                </div>
+                {penalties.length > 0 && (
+                  <p className="text-sm text-red-700">Penalties: {formatPenalties(penalties)}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="text-sm space-y-1">
+          {events.length === 0 ? (
+            <p className="text-gray-500">No scores yet</p>
+          ) : (
+            <ol className="list-decimal pl-5 text-gray-700">
+              {events.map((event, index) => (
+                <li key={index} className={isPenalty(event) ? 'text-red-700' : ''}>
+                  {isPenalty(event)
+                    ? `${PENALTY_LABELS[event.penalty]} – ${nameOf(event.athlete)}`
+                    : `${SCORE_LABELS[event.score]} – ${nameOf(event.athlete)}`}
+                </li>
+              ))}
+            </ol>
+          )}
+          {disqualified ? (
+            <p className="font-medium text-red-700">Girrom – {nameOf(disqualified)} is disqualified</p>
+          ) : over ? (
+            <p className="font-medium text-green-700">Halol – the bout is over</p>
+          ) : phase === 'time_up' ? (
+            <p className="font-medium text-green-700">Time up – {winner?.name} wins on scores</p>
+          ) : phase === 'golden_score' ? (
+            <p className="font-medium text-yellow-700">Golden score – the first score wins</p>
+          ) : events.length > 0 && !leader && (
+            <p className="text-yellow-700">Scores are level – the bout continues</p>
+          )}
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <p className="text-sm font-medium">Forfeit</p>
+          <div className="grid grid-cols-2 gap-2">
+            {athletes.map(([athlete, player]) => (
+              <div key={athlete} className="space-y-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={events.length > 0 || saving}
+                  onClick={() => handleForfeit(athlete, 'walkover')}
+                >
+                  {player.name} did not fight
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={over || saving}
+                  onClick={() => handleForfeit(athlete, 'medical_withdrawal')}
+                >
+                  {player.name} withdrew injured
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={events.length === 0}
+            onClick={() => perform({ kind: 'undo' }, 'click')}
+          >
+            Undo Last{keyHint({ kind: 'undo' })}
+          </Button>
+          <Button onClick={() => perform({ kind: 'confirm' }, 'click')} disabled={!winner || saving}>
+            {winner ? `Save – ${winner.name} wins (${WIN_TYPE_LABELS[deriveWinType(breakdown)]})` : 'Save Result'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <CommandDialog open={paletteOpen} onOpenChange={setPaletteOpen}>
+        <CommandInput placeholder="Type an action..." />
+        <CommandList>
+          <CommandEmpty>No matching action.</CommandEmpty>
+          {(['blue', 'green'] as const).map(jacket => (
+            <CommandGroup key={jacket} heading={`${JACKET_LABELS[jacket]} – ${nameOf(athleteInJacket(jackets, jacket))}`}>
+              {KEY_BINDINGS.filter(({ action }) => action.kind === 'award' && action.jacket === jacket).map(binding => (
+                <CommandItem
+                  key={formatKey(binding)}
+                  value={`${JACKET_LABELS[jacket]} ${binding.label}`}
+                  onSelect={() => {
+                    setPaletteOpen(false);
+                    perform(binding.action, 'palette');
+                  }}
+                >
+                  {binding.label}
+                  <CommandShortcut>{formatKey(binding)}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
+          <CommandGroup heading="Bout">
+            {KEY_BINDINGS.filter(({ action }) => action.kind !== 'award').map(binding => (
+              <CommandItem
+                key={formatKey(binding)}
+                value={binding.label}
+                onSelect={() => {
+                  setPaletteOpen(false);
+                  perform(binding.action, 'palette');
+                }}
+              >
+                {binding.label}
+                <CommandShortcut>{formatKey(binding)}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import {
+  BOUT_JACKETS,
+  isBye,
+  isEliminationSystem,
+  jacketOf,
+  poolLabel,
+  type Bracket,
+  type KnockoutMatch,
+  type Participant,
+  type Pool
+} from '@/lib/tournament';
+import { JACKET_BORDERS } from './JacketBadge';
+
+interface BracketTreeProps {
+  bracket: Bracket<Participant>;
+}
+
+// Pixel sizes of the layout; connector lines are positioned from these
+const SLOT_HEIGHT = 56;
+const HEADER_HEIGHT = 24;
+const CONNECTOR = 'border-gray-300';
+
+function MatchBox({ match }: { match?: KnockoutMatch<Participant> | null }) {
+  const players = match ? [match.player1, match.player2] : [undefined, undefined];
+
+  return (
+    <div className="border rounded bg-white text-xs overflow-hidden">
+      {players.map((player, index) => {
+        const won = player && player.id === match?.winner_id;
+        return (
+          <div
+            key={index}
+            className={`px-2 py-1 truncate ${index > 0 ? 'border-t' : ''} ${
+              match && !isBye(match) ? JACKET_BORDERS[jacketOf(index === 0 ? 'player1' : 'player2', match)] : ''
+            } ${
+              won ? 'bg-green-50 font-semibold text-green-700' : match?.winner_id ? 'text-gray-400' : ''
+            }`}
+          >
+            {player ? player.name : match ? 'Bye' : <span className="text-gray-400">TBD</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// One cell of a column. Every cell after the first column joins its two
+// feeders, whose centres sit at a quarter and three quarters of its height.
+function TreeCell({ first, children }: { first: boolean; children: ReactNode }) {
+  return (
+    <div className="relative flex-1 flex items-center">
+      {!first && (
+        <>
+          <div className={`absolute left-0 top-1/4 bottom-1/4 border-l ${CONNECTOR}`} />
+          <div className={`absolute left-0 top-1/2 w-3 border-t ${CONNECTOR}`} />
+        </>
+      )}
+      <div className={`w-full mr-3 ${first ? '' : 'ml-3'}`}>{children}</div>
+      <div className={`absolute right-0 top-1/2 w-3 border-t ${CONNECTOR}`} />
+    </div>
+  );
+}
+
+function Column({ title, height, children }: { title: string; height: number; children: ReactNode }) {
+  return (
+    <div className="w-44 shrink-0">
+      <p className="text-xs font-medium text-gray-500 truncate" style={{ height: HEADER_HEIGHT }}>{title}</p>
+      <div className="flex flex-col" style={{ height }}>{children}</div>
+    </div>
+  );
+}
+
+function roundCount(bracket: Bracket<Participant>, pool: Pool<Participant>): number {
+  return Math.log2(Math.max((bracket.poolKnockoutSlots[pool.name] || []).length, 1));
+}
+
+interface PoolTreeProps {
+  pool: Pool<Participant>;
+  bracket: Bracket<Participant>;
+  height: number;
+  // Rounds of the deeper pool; a shallower pool runs a line through the difference
+  depth: number;
+}
+
+// An elimination bracket starts with the group bouts as its first round
+function FirstRoundBout({ pool, groupName, winner }: { pool: Pool<Participant>; groupName?: string; winner?: Participant }) {
+  const group = pool.groups.find(g => g.name === groupName);
+  if (!group || group.players.length === 0) {
+    return <div className="border border-dashed rounded text-xs px-2 py-1 text-gray-400">Bye</div>;
+  }
+
+  const [player1, player2] = group.players;
+  return <MatchBox match={{ id: group.name, round: 0, player1, player2, jackets: BOUT_JACKETS, winner_id: winner?.id, stage: '' }} />;
+}
+
+function PoolTree({ pool, bracket, height, depth }: PoolTreeProps) {
+  const slots = bracket.poolKnockoutSlots[pool.name] || [];
+  const matches = bracket.poolKnockoutMatches[pool.name] || [];
+  const rounds = roundCount(bracket, pool);
+  const elimination = isEliminationSystem(bracket.system);
+  const label = poolLabel(bracket.system, pool.name);
+  // In an elimination bracket the group bouts are round 1
+  const roundTitle = (round: number) => (round === rounds
+    ? `${label} Final`
+    : `${elimination ? `${label} – ` : ''}Round ${elimination ? round + 1 : round}`);
+
+  return (
+    <div className="flex">
+      <Column title={elimination ? `${label} – Round 1` : `${pool.name} – Group Winners`} height={height}>
+        {slots.map((player, index) => (
+          <TreeCell key={index} first>
+            {elimination ? (
+              <FirstRoundBout pool={pool} groupName={pool.knockout[index]} winner={player} />
+            ) : player ? (
+              <div className="border rounded bg-white text-xs px-2 py-1 truncate font-medium">{player.name}</div>
+            ) : pool.knockout[index] ? (
+              <div className="border rounded bg-white text-xs px-2 py-1 truncate text-gray-400">
+                Winner of Group {pool.knockout[index]}
+              </div>
+            ) : (
+              <div className="border border-dashed rounded text-xs px-2 py-1 text-gray-400">Bye</div>
+            )}
+          </TreeCell>
+        ))}
+      </Column>
+      {Array.from({ length: rounds }, (_, i) => i + 1).map(round => (
+        <Column key={round} title={roundTitle(round)} height={height}>
+          {Array.from({ length: slots.length / 2 ** round }, (_, position) => (
+            <TreeCell key={position} first={false}>
+              <MatchBox match={matches.find(match => match.round === round && match.position === position)} />
+            </TreeCell>
+          ))}
+        </Column>
+      ))}
+      {Array.from({ length: depth - rounds }, (_, i) => (
+        <Column key={`through-${i}`} title="" height={height}>
+          <div className="relative flex-1">
+            <div className={`absolute left-0 right-0 top-1/2 border-t ${CONNECTOR}`} />
+          </div>
+        </Column>
+      ))}
+    </div>
+  );
+}
+
+// Knockout bracket drawn as columns with connecting lines: group winners of
+// each pool, the pool knockout rounds and the final between the pool winners.
+// Single and double elimination start from the group bouts instead, as the
+// first round of each half.
+export default function BracketTree({ bracket }: BracketTreeProps) {
+  const [poolA, poolB] = bracket.pools;
+  if (!poolA || !poolB) return null;
+
+  const rows = Math.max(
+    1,
+    ...bracket.pools.map(pool => (bracket.poolKnockoutSlots[pool.name] || []).length)
+  );
+  const height = rows * SLOT_HEIGHT;
+  const depth = Math.max(roundCount(bracket, poolA), roundCount(bracket, poolB));
+  // Centres of the two pool trees, which the final joins
+  const poolACentre = HEADER_HEIGHT + height / 2;
+  const poolBCentre = 2 * HEADER_HEIGHT + height + height / 2;
+  const finalTitle = bracket.system === 'double_elimination' ? 'Winners Bracket Final' : 'Championship Final';
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex">
+        <div>
+          <PoolTree pool={poolA} bracket={bracket} height={height} depth={depth} />
+          <PoolTree pool={poolB} bracket={bracket} height={height} depth={depth} />
+        </div>
+        <div className="relative w-48 shrink-0">
+          <p className="text-xs font-medium text-gray-500 pl-3" style={{ height: HEADER_HEIGHT }}>{finalTitle}</p>
+          <div
+            className={`absolute left-0 border-l ${CONNECTOR}`}
+            style={{ top: poolACentre, height: poolBCentre - poolACentre }}
+          />
+          <div
+            className={`absolute left-0 w-3 border-t ${CONNECTOR}`}
+            style={{ top: (poolACentre + poolBCentre) / 2 }}
+          />
+          <div
+            className="absolute left-3 right-0 -translate-y-1/2 space-y-1"
+            style={{ top: (poolACentre + poolBCentre) / 2 }}
+          >
+            <MatchBox match={bracket.finalMatch} />
+            {bracket.system !== 'double_elimination' && bracket.champion && (
+              <p className="text-xs font-semibold text-yellow-700">Champion: {bracket.champion.name}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { JACKET_LABELS, type KnockoutMatch, type Participant } from '@/lib/tournament';
+
+interface CallRoomListProps {
+  title: string;
+  bouts: KnockoutMatch<Participant>[];
+}
+
+// Printable list of the bouts ready to be called, with the jacket each athlete
+// reports in. Doubles as the bout sheet for the mat table.
+export default function CallRoomList({ title, bouts }: CallRoomListProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">Call Room List</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto print-area">
+        <DialogHeader>
+          <DialogTitle>Call Room – {title}</DialogTitle>
+        </DialogHeader>
+        {bouts.length === 0 ? (
+          <p className="text-sm text-gray-500">No bouts are ready to be called</p>
+        ) : (
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border p-2 text-left">#</th>
+                <th className="border p-2 text-left">Bout</th>
+                <th className="border p-2 text-left">{JACKET_LABELS.blue}</th>
+                <th className="border p-2 text-left">{JACKET_LABELS.green}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bouts.map((bout, index) => {
+                const [blue, green] = bout.jackets.player1 === 'blue'
+                  ? [bout.player1, bout.player2]
+                  : [bout.player2, bout.player1];
+                return (
+                  <tr key={bout.id}>
+                    <td className="border p-2">{index + 1}</td>
+                    <td className="border p-2">{bout.stage}</td>
+                    {[blue, green].map((player, side) => (
+                      <td key={side} className="border p-2">
+                        <p className="font-medium">{player?.name}</p>
+                        <p className="text-xs text-gray-600">{player?.association}</p>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <div className="flex justify-end print:hidden">
+          <Button onClick={() => window.print()}>Print</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
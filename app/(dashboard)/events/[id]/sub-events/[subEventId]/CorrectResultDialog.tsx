@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  formatScoreLine,
+  medalsChanged,
+  toResultFields,
+  WIN_TYPE_LABELS,
+  type BoutOutcome,
+  type CorrectionPreview,
+  type KnockoutMatch,
+  type MatchResult,
+  type Medallist,
+  type Participant
+} from '@/lib/tournament';
+import BoutScoringPanel from './BoutScoringPanel';
+
+// How the sub-event page previews and applies a correction
+export interface CorrectionHandlers {
+  preview: (corrected: MatchResult) => CorrectionPreview<Participant>;
+  // Resolves to whether the correction was saved; failures are reported by
+  // the page, and the dialog stays open to try again
+  apply: (corrected: MatchResult, reason: string) => Promise<boolean>;
+}
+
+interface CorrectResultDialogProps {
+  bout: KnockoutMatch<Participant>;
+  result: MatchResult;
+  correction: CorrectionHandlers;
+  regulationTime?: number;
+  triggerLabel?: string;
+}
+
+const MEDALS: Record<Medallist['place'], string> = { 1: 'Gold', 2: 'Silver', 3: 'Bronze' };
+
+function formatMedals(medals: Medallist[]) {
+  return medals.length > 0
+    ? medals.map(medal => `${MEDALS[medal.place]}: ${medal.player.name}`).join(', ')
+    : 'None decided';
+}
+
+// Corrects a saved result. The bout is scored again; before anything is
+// saved the dialog shows which later results no longer stand and how the
+// medals move, and the correction needs a reason for the audit history.
+export default function CorrectResultDialog({
+  bout,
+  result,
+  correction,
+  regulationTime,
+  triggerLabel = 'Correct Result'
+}: CorrectResultDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [corrected, setCorrected] = useState<MatchResult | null>(null);
+  const [reason, setReason] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const players = [bout.player1, bout.player2];
+  const nameOf = (id: string) => players.find(player => player?.id === id)?.name || 'Unknown';
+  const preview = corrected && correction.preview(corrected);
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) {
+      setCorrected(null);
+      setReason('');
+    }
+  }
+
+  function handleRescore(winnerId: string, outcome: BoutOutcome) {
+    setCorrected({ ...result, winner_id: winnerId, ...toResultFields(outcome) });
+  }
+
+  async function handleApply() {
+    if (!corrected) return;
+    setApplying(true);
+    try {
+      if (await correction.apply(corrected, reason.trim())) setOpen(false);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  const describe = (label: string, { winner_id, win_type, score_breakdown }: MatchResult) => (
+    <div className="text-sm">
+      <p className="font-medium">
+        {label}: {nameOf(winner_id)} wins{win_type && ` (${WIN_TYPE_LABELS[win_type]})`}
+      </p>
+      {score_breakdown && <p className="text-gray-600">{formatScoreLine(score_breakdown)}</p>}
+    </div>
+  );
+
+  if (!bout.player1 || !bout.player2) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">{triggerLabel}</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Correct Result – {bout.stage}</DialogTitle>
+        </DialogHeader>
+
+        {describe('Recorded', result)}
+
+        <BoutScoringPanel
+          title={`${bout.stage} (correction)`}
+          player1={bout.player1}
+          player2={bout.player2}
+          jackets={bout.jackets}
+          onSave={handleRescore}
+          regulationTime={regulationTime}
+          triggerLabel={corrected ? 'Score Bout Again' : 'Score Corrected Result'}
+        />
+
+        {corrected && preview && (
+          <div className="space-y-3 border-t pt-3">
+            {describe('Corrected', corrected)}
+
+            <div className="text-sm">
+              <p className="font-medium">Later results that no longer stand</p>
+              {preview.invalidated.length > 0 ? (
+                <ul className="list-disc pl-5 text-red-700">
+                  {preview.invalidated.map(({ result: stale, bout: staleBout }) => (
+                    <li key={stale.match_stage}>
+                      {staleBout.stage}: {staleBout.player1?.name} vs {staleBout.player2?.name}, won by {
+                        [staleBout.player1, staleBout.player2].find(player => player?.id === stale.winner_id)?.name
+                      }
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-600">None – no later bout changes</p>
+              )}
+              {preview.invalidated.length > 0 && (
+                <p className="text-gray-600">These results are removed and the bouts are paired again from the corrected result.</p>
+              )}
+            </div>
+
+            <div className="text-sm">
+              <p className="font-medium">Medals</p>
+              {medalsChanged(preview) ? (
+                <>
+                  <p className="text-gray-600">Before: {formatMedals(preview.medalsBefore)}</p>
+                  <p className="text-red-700">After: {formatMedals(preview.medalsAfter)}</p>
+                </>
+              ) : (
+                <p className="text-gray-600">Unchanged</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-sm font-medium">Reason for the correction</label>
+              <Textarea
+                value={reason}
+                onChange={event => setReason(event.target.value)}
+                placeholder="e.g. Yonbosh given to the wrong athlete"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={!corrected || !reason.trim() || applying}>
+            Apply Correction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  competitionSystemLabel,
+  findAssociationConflicts,
+  getDrawSystem,
+  hydrateDraw,
+  isDrawReproducible,
+  type Draw
+} from '@/lib/tournament';
+
+interface DrawReportProps {
+  title: string;
+  draw: Draw;
+  lockedAt: string | null;
+}
+
+// Audit sheet for observers: the seed, the input order and the resulting
+// groups, plus a check that re-running the draw from the seed gives the same pools.
+export default function DrawReport({ title, draw, lockedAt }: DrawReportProps) {
+  const entrantsById = new Map(draw.entrants.map(entrant => [entrant.id, entrant]));
+  const reproducible = isDrawReproducible(draw);
+  const roundRobin = getDrawSystem(draw) === 'round_robin';
+  const conflicts = roundRobin ? [] : findAssociationConflicts(hydrateDraw(draw, draw.entrants));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">Draw Report</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Draw Report – {title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6 text-sm">
+          <div className="space-y-1">
+            <p><strong>Seed:</strong> <span className="font-mono">{draw.seed}</span></p>
+            <p><strong>Format:</strong> {competitionSystemLabel(getDrawSystem(draw))}</p>
+            <p><strong>Status:</strong> {lockedAt ? `Locked on ${new Date(lockedAt).toLocaleString()}` : 'Draft'}</p>
+            <p className={reproducible ? 'text-green-600' : 'text-red-600'}>
+              {reproducible
+                ? 'Re-running the draw from this seed reproduces these pools.'
+                : 'Re-running the draw from this seed does NOT reproduce these pools.'}
+            </p>
+          </div>
+
+          {!roundRobin && (
+          <div>
+            <h4 className="font-semibold mb-2">Association Conflicts</h4>
+            {conflicts.length === 0 ? (
+              <p className="text-green-600">Athletes from the same association are fully separated.</p>
+            ) : (
+              <ul className="list-disc pl-5 text-red-600">
+                {conflicts.map(conflict => (
+                  <li key={`${conflict.unit}-${conflict.association}`}>
+                    {conflict.unit}: {conflict.player_ids.map(id => entrantsById.get(id)?.name || id).join(', ')} ({conflict.association})
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold mb-2">Input Order ({draw.entrants.length})</h4>
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border p-2 text-left">#</th>
+                  <th className="border p-2 text-left">Player</th>
+                  <th className="border p-2 text-left">Association</th>
+                  <th className="border p-2 text-left">Seed</th>
+                  <th className="border p-2 text-left">ID</th>
+                </tr>
+              </thead>
+              <tbody>
+                {draw.entrants.map((entrant, index) => (
+                  <tr key={entrant.id}>
+                    <td className="border p-2">{index + 1}</td>
+                    <td className="border p-2">{entrant.name}</td>
+                    <td className="border p-2">{entrant.association}</td>
+                    <td className="border p-2">{entrant.seed_number ?? '–'}</td>
+                    <td className="border p-2 font-mono text-xs">{entrant.id}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {roundRobin ? (
+            <div>
+              <h4 className="font-semibold mb-2">Drawn Order</h4>
+              <ol className="list-decimal pl-5 text-gray-700">
+                {draw.pools.flatMap(pool => pool.groups.flatMap(group => group.player_ids)).map(id => (
+                  <li key={id}>{entrantsById.get(id)?.name || id} – {entrantsById.get(id)?.association || 'Unknown'}</li>
+                ))}
+              </ol>
+            </div>
+          ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {draw.pools.map(pool => (
+              <div key={pool.name}>
+                <h4 className="font-semibold mb-2">{pool.name}</h4>
+                <div className="space-y-2">
+                  {pool.groups.map(group => (
+                    <div key={group.name} className="border rounded p-2">
+                      <p className="font-medium">Group {group.name}</p>
+                      {group.player_ids.map(id => {
+                        const entrant = entrantsById.get(id);
+                        return (
+                          <p key={id} className="text-gray-700">
+                            {entrant?.name || id} – {entrant?.association || 'Unknown'}
+                            {entrant?.seed_number && ` (Seed ${entrant.seed_number})`}
+                          </p>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { JACKET_LABELS, type Jacket } from '@/lib/tournament';
+
+// Left border marking an athlete's jacket on match lists
+export const JACKET_BORDERS: Record<Jacket, string> = {
+  blue: 'border-l-4 border-l-blue-600',
+  green: 'border-l-4 border-l-green-600'
+};
+
+const BADGE_CLASSES: Record<Jacket, string> = {
+  blue: 'bg-blue-600 text-white',
+  green: 'bg-green-600 text-white'
+};
+
+export default function JacketBadge({ jacket }: { jacket: Jacket }) {
+  return (
+    <span className={`inline-block rounded px-1.5 py-0.5 text-xs font-medium ${BADGE_CLASSES[jacket]}`}>
+      {JACKET_LABELS[jacket]}
+    </span>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  formatClock,
+  formatPenalties,
+  formatScoreLine,
+  isBye,
+  jacketOf,
+  penaltiesOf,
+  WIN_TYPE_LABELS,
+  type BoutOutcome,
+  type KnockoutMatch,
+  type MatchResult,
+  type Participant
+} from '@/lib/tournament';
+import BoutScoringPanel from './BoutScoringPanel';
+import CorrectResultDialog, { type CorrectionHandlers } from './CorrectResultDialog';
+import ProtestDialog, { type ProtestHandlers } from './ProtestDialog';
+import JacketBadge, { JACKET_BORDERS } from './JacketBadge';
+
+interface MatchCardProps {
+  match: KnockoutMatch<Participant>;
+  onRecordResult: (winnerId: string, outcome: BoutOutcome) => Promise<void> | void;
+  // The recorded result, if any, with its score sheet and win type
+  result?: MatchResult;
+  // Regulation bout time in seconds for the bout clock
+  regulationTime?: number;
+  disabled?: boolean;
+  // Offer "Correct Result" and "Protest" once the bout has a result
+  correction?: CorrectionHandlers;
+  protest?: ProtestHandlers;
+  // Held back while a protest against a bout it depends on is open
+  blocked?: boolean;
+}
+
+// One bout, with the scoring panel until it has a result and a correction
+// after. An empty place is shown as a bye.
+export default function MatchCard({
+  match,
+  onRecordResult,
+  result,
+  regulationTime,
+  disabled,
+  correction,
+  protest,
+  blocked
+}: MatchCardProps) {
+  const winner = [match.player1, match.player2].find(player => player?.id === match.winner_id);
+  const bye = isBye(match);
+  const scores = result?.score_breakdown;
+  const penalties = scores
+    ? [penaltiesOf(scores, 'player1'), penaltiesOf(scores, 'player2')]
+    : [[], []];
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="font-medium">{match.stage}</h4>
+        {!bye && match.player1 && match.player2 && (
+          <Link
+            href={`/players/head-to-head?player1=${match.player1.id}&player2=${match.player2.id}`}
+            target="_blank"
+            className="text-xs text-blue-600 hover:underline"
+          >
+            Head to head
+          </Link>
+        )}
+      </div>
+      <div className="grid grid-cols-1 gap-2">
+        {[match.player1, match.player2].map((player, index) => player ? (
+          <div
+            key={player.id}
+            className={`p-2 rounded ${bye ? '' : JACKET_BORDERS[jacketOf(index === 0 ? 'player1' : 'player2', match)]} ${
+              match.winner_id === player.id ? 'bg-green-50' : 'bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium">{player.name}</p>
+              {!bye && <JacketBadge jacket={jacketOf(index === 0 ? 'player1' : 'player2', match)} />}
+            </div>
+            <p className="text-sm text-gray-600">{player.association}</p>
+            {penalties[index].length > 0 && (
+              <p className="text-xs text-red-700">Penalties: {formatPenalties(penalties[index])}</p>
+            )}
+          </div>
+        ) : (
+          <div key={`bye-${index}`} className="p-2 rounded border border-dashed text-gray-500">
+            <p className="font-medium">Bye</p>
+          </div>
+        ))}
+      </div>
+
+      {!match.winner_id && match.player1 && match.player2 && (
+        <div className="mt-3">
+          <BoutScoringPanel
+            title={match.stage}
+            player1={match.player1}
+            player2={match.player2}
+            jackets={match.jackets}
+            onSave={onRecordResult}
+            regulationTime={regulationTime}
+            disabled={disabled || blocked}
+          />
+          {blocked && (
+            <p className="mt-1 text-xs text-red-700">On hold – a protest on an earlier bout is open</p>
+          )}
+        </div>
+      )}
+
+      {winner && (
+        <div className="mt-2 p-2 bg-green-50 rounded">
+          <p className="text-sm font-medium text-green-600">
+            {bye ? 'Walks through' : 'Winner'}: {winner.name}
+            {result?.win_type && ` (${WIN_TYPE_LABELS[result.win_type]})`}
+          </p>
+          {scores && (
+            <p className="text-xs text-gray-600">{formatScoreLine(scores)}</p>
+          )}
+          {scores?.duration !== undefined && (
+            <p className="text-xs text-gray-600">
+              Bout time {formatClock(scores.duration)}{scores.goldenScore && ' (golden score)'}
+            </p>
+          )}
+          {!bye && result && correction && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              <CorrectResultDialog bout={match} result={result} correction={correction} regulationTime={regulationTime} />
+              {protest && (
+                <ProtestDialog
+                  bout={match}
+                  result={result}
+                  protest={protest}
+                  correction={correction}
+                  regulationTime={regulationTime}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
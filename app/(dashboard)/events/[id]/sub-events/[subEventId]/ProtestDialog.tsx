@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  PROTEST_FEE,
+  PROTEST_FEE_LABELS,
+  PROTEST_STATUS_LABELS,
+  type Protest,
+  type ProtestStatus
+} from '@/lib/protests';
+import type { KnockoutMatch, MatchResult, Participant } from '@/lib/tournament';
+import CorrectResultDialog, { type CorrectionHandlers } from './CorrectResultDialog';
+
+// How the sub-event page files and decides protests
+export interface ProtestHandlers {
+  // Every protest of the sub-event
+  protests: Protest[];
+  file: (result: MatchResult, playerId: string, reason: string, fee: number) => Promise<void>;
+  decide: (protest: Protest, status: Exclude<ProtestStatus, 'open'>, notes: string, resultChanged: boolean) => Promise<void>;
+}
+
+interface ProtestDialogProps {
+  bout: KnockoutMatch<Participant>;
+  result: MatchResult;
+  protest: ProtestHandlers;
+  correction: CorrectionHandlers;
+  regulationTime?: number;
+}
+
+// Protest (Care system video review) against a recorded bout. A coach files
+// it with a reason and the protest fee; the jury then rejects it, upholds it
+// with the result standing, or upholds it and changes the result through the
+// correction workflow.
+export default function ProtestDialog({ bout, result, protest, correction, regulationTime }: ProtestDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [playerId, setPlayerId] = useState('');
+  const [reason, setReason] = useState('');
+  const [fee, setFee] = useState(String(PROTEST_FEE));
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const protests = protest.protests.filter(entry => entry.match_stage === result.match_stage);
+  const openProtest = protests.find(entry => entry.status === 'open');
+  const players = [bout.player1, bout.player2].filter((player): player is Participant => player !== undefined);
+  const nameOf = (id: string) => players.find(player => player.id === id)?.name || 'Unknown';
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) {
+      setPlayerId('');
+      setReason('');
+      setFee(String(PROTEST_FEE));
+      setNotes('');
+    }
+  }
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // An upheld protest that changes the result goes through the correction
+  // dialog; the decision is recorded once the correction is applied
+  const upholdWithCorrection: CorrectionHandlers = {
+    preview: correction.preview,
+    apply: async (corrected, correctionReason) => {
+      if (!(await correction.apply(corrected, correctionReason))) return false;
+      if (openProtest) await protest.decide(openProtest, 'upheld', notes.trim() || correctionReason, true);
+      setOpen(false);
+      return true;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={openProtest ? 'text-red-700 border-red-300' : ''}>
+          {openProtest ? 'Protest Open' : 'Protest'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Protest – {bout.stage}</DialogTitle>
+        </DialogHeader>
+
+        {protests.length > 0 && (
+          <div className="space-y-2 text-sm">
+            {protests.map(entry => (
+              <div key={entry.id} className="border rounded p-2">
+                <p className="font-medium">
+                  {PROTEST_STATUS_LABELS[entry.status]} – filed for {nameOf(entry.protesting_player_id)} on {new Date(entry.created_at).toLocaleString()}
+                </p>
+                <p className="text-gray-700">{entry.reason}</p>
+                <p className="text-gray-600">Fee ₹{entry.fee_amount} – {PROTEST_FEE_LABELS[entry.fee_status]}</p>
+                {entry.decision_notes && <p className="text-gray-600">Jury: {entry.decision_notes}</p>}
+                {entry.result_changed && <p className="text-red-700">The result was changed</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {openProtest ? (
+          <div className="space-y-3 border-t pt-3">
+            <p className="text-sm text-gray-600">
+              Bouts that depend on this result are held back until the jury decides.
+            </p>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium">Jury decision notes</label>
+              <Textarea value={notes} onChange={event => setNotes(event.target.value)} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                disabled={busy}
+                onClick={() => run(async () => {
+                  await protest.decide(openProtest, 'rejected', notes.trim(), false);
+                  setOpen(false);
+                })}
+              >
+                Reject
+              </Button>
+              <Button
+                variant="outline"
+                disabled={busy}
+                onClick={() => run(async () => {
+                  await protest.decide(openProtest, 'upheld', notes.trim(), false);
+                  setOpen(false);
+                })}
+              >
+                Uphold – Result Stands
+              </Button>
+              <CorrectResultDialog
+                bout={bout}
+                result={result}
+                correction={upholdWithCorrection}
+                regulationTime={regulationTime}
+                triggerLabel="Uphold and Change Result"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 border-t pt-3">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium">Filed for</label>
+              <Select value={playerId} onValueChange={setPlayerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select athlete" />
+                </SelectTrigger>
+                <SelectContent>
+                  {players.map(player => (
+                    <SelectItem key={player.id} value={player.id}>{player.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium">Reason</label>
+              <Textarea
+                value={reason}
+                onChange={event => setReason(event.target.value)}
+                placeholder="e.g. Yonbosh should have been Halol"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium">Protest fee (₹)</label>
+              <Input type="number" min="0" value={fee} onChange={event => setFee(event.target.value)} />
+            </div>
+            <Button
+              disabled={!playerId || !reason.trim() || fee === '' || busy}
+              onClick={() => run(async () => {
+                await protest.file(result, playerId, reason.trim(), parseInt(fee));
+                setOpen(false);
+              })}
+            >
+              File Protest
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import type { Participant, Standing } from '@/lib/tournament';
+
+interface RoundRobinStandingsProps {
+  standings: Standing<Participant>[];
+}
+
+const MEDAL_STYLES: Record<number, string> = {
+  1: 'bg-yellow-50',
+  2: 'bg-gray-100',
+  3: 'bg-orange-50'
+};
+
+// Round-robin table: wins first, then head-to-head, then technical points
+export default function RoundRobinStandings({ standings }: RoundRobinStandingsProps) {
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr className="bg-gray-100">
+          <th className="border p-2 text-left">Rank</th>
+          <th className="border p-2 text-left">Player</th>
+          <th className="border p-2 text-left">Association</th>
+          <th className="border p-2 text-left">Bouts</th>
+          <th className="border p-2 text-left">Won</th>
+          <th className="border p-2 text-left">Lost</th>
+          <th className="border p-2 text-left">Technical Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map(standing => (
+          <tr key={standing.player.id} className={MEDAL_STYLES[standing.rank] || ''}>
+            <td className="border p-2 font-medium">{standing.rank}</td>
+            <td className="border p-2">{standing.player.name}</td>
+            <td className="border p-2">{standing.player.association}</td>
+            <td className="border p-2">{standing.bouts}</td>
+            <td className="border p-2">{standing.wins}</td>
+            <td className="border p-2">{standing.losses}</td>
+            <td className="border p-2">{standing.technicalPoints}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { transferProblem, type TransferAthlete, type TransferCategory } from '@/lib/transfers';
+
+interface TransferDialogProps {
+  athlete: TransferAthlete;
+  subEvent: TransferCategory;
+  // Other sub-events of the same event
+  siblings: TransferCategory[];
+  officialWeight?: number;
+  tolerance?: number;
+  // Resolves to whether the athlete was moved; the dialog stays open otherwise
+  onTransfer: (target: TransferCategory) => Promise<boolean>;
+}
+
+// Moves an athlete whose weight puts them in another category of the event.
+// Categories the athlete does not fit are listed with the reason and cannot
+// be chosen.
+export default function TransferDialog({
+  athlete,
+  subEvent,
+  siblings,
+  officialWeight,
+  tolerance,
+  onTransfer
+}: TransferDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [targetId, setTargetId] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const problems = new Map(
+    siblings.map(sibling => [sibling.id, transferProblem(athlete, subEvent, sibling, officialWeight, tolerance)])
+  );
+  const target = siblings.find(sibling => sibling.id === targetId);
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) setTargetId('');
+  }
+
+  async function handleTransfer() {
+    if (!target) return;
+
+    setBusy(true);
+    try {
+      if (await onTransfer(target)) setOpen(false);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 text-xs">
+          Transfer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Transfer {athlete.name}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          {officialWeight !== undefined
+            ? `Official weight ${officialWeight} kg`
+            : `Registered weight ${athlete.weight} kg – not weighed yet`}
+        </p>
+
+        {siblings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This event has no other sub-events</p>
+        ) : (
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select sub-event" />
+            </SelectTrigger>
+            <SelectContent>
+              {siblings.map(sibling => (
+                <SelectItem key={sibling.id} value={sibling.id} disabled={problems.get(sibling.id) !== null}>
+                  {sibling.title} ({sibling.min_weight} – {sibling.max_weight} kg)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {siblings.some(sibling => problems.get(sibling.id)) && (
+          <ul className="text-xs text-gray-600 space-y-1">
+            {siblings.filter(sibling => problems.get(sibling.id)).map(sibling => (
+              <li key={sibling.id}>{problems.get(sibling.id)}</li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-sm text-gray-600">
+          The athlete&apos;s entry and payment move with them. Unlocked draws of both sub-events are made again.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button disabled={!target || busy} onClick={handleTransfer}>
+            Transfer
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
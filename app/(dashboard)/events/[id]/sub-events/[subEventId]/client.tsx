@@ -1,12 +1,85 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/lib/supabase';
+import { fetchStoredDraw, lockDraw, saveDraw, type StoredDraw } from '@/lib/draws';
+import { transferParticipant, type TransferCategory } from '@/lib/transfers';
+import { decideProtest, fetchProtests, fileProtest, type Protest, type ProtestStatus } from '@/lib/protests';
+import {
+  fetchOfficialWeights,
+  fetchWeighIns,
+  fetchWeighInSession,
+  withdrawParticipant,
+  type ParticipantStatus,
+  type WeighIn,
+  type WeighInSession
+} from '@/lib/weigh-ins';
+import {
+  BOUT_JACKETS,
+  buildBracket,
+  COMPETITION_SYSTEMS,
+  competitionSystemLabel,
+  createRoundRobinMatches,
+  createSeed,
+  DEFAULT_COMPETITION_SYSTEM,
+  didNotMakeWeight,
+  findAssociationConflicts,
+  findResult,
+  formatPenalties,
+  formatScoreLine,
+  getBoutsToCall,
+  getDependentBouts,
+  getDrawSystem,
+  getRoundRobinStandings,
+  getUndrawnParticipants,
+  getWithdrawalWalkovers,
+  groupStageId,
+  hydrateDraw,
+  isBye,
+  isDoubleWalkover,
+  isEliminationSystem,
+  isInAgeGroup,
+  isRoundRobinComplete,
+  isWithinCategory,
+  jacketOf,
+  WEIGH_IN_STATUS_LABELS,
+  weighInStatus,
+  makeDraw,
+  MAX_SEEDS,
+  medalsChanged,
+  penaltiesOf,
+  POOL_NAMES,
+  poolLabel,
+  previewCorrection,
+  ROUND_ROBIN_MAX,
+  ROUND_ROBIN_MIN,
+  ROUND_ROBIN_POOL,
+  regulationTime,
+  toResultFields,
+  WIN_TYPE_LABELS,
+  type AgeGroup,
+  type BoutOutcome,
+  type CompetitionSystem,
+  type KnockoutMatch,
+  type MatchResult,
+  type Standing,
+  type WinType
+} from '@/lib/tournament';
+import BoutScoringPanel from './BoutScoringPanel';
+import BracketTree from './BracketTree';
+import CallRoomList from './CallRoomList';
+import CorrectResultDialog, { type CorrectionHandlers } from './CorrectResultDialog';
+import DrawReport from './DrawReport';
+import JacketBadge, { JACKET_BORDERS } from './JacketBadge';
+import MatchCard from './MatchCard';
+import ProtestDialog, { type ProtestHandlers } from './ProtestDialog';
+import RoundRobinStandings from './RoundRobinStandings';
+import TransferDialog from './TransferDialog';
 import Link from 'next/link';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
@@ -17,6 +90,10 @@ interface PlayerData {
   association: string;
   weight: number;
   birth_date?: string;
+  seed_number?: number | null;
+  status?: ParticipantStatus;
+  removed_from_draw?: boolean;
+  withdrawn?: boolean;
 }
 
 interface SubEventParticipantData {
@@ -34,24 +111,11 @@ interface SubEvent {
   max_weight: number;
   created_at: string;
   dob_range?: string;
-}
-
-interface Group {
-  name: string;
-  players: PlayerData[];
-}
-
-interface Pool {
-  name: string;
-  groups: Group[];
-}
-
-interface KnockoutMatch {
-  id: string;
-  player1?: PlayerData;
-  player2?: PlayerData;
-  winner_id?: string;
-  stage: string;
+  event_date?: string | null;
+  event_end_date?: string | null;
+  competition_system?: CompetitionSystem;
+  age_group?: AgeGroup | null;
+  bout_duration?: number | null;
 }
 
 interface SummaryResult {
@@ -71,6 +135,17 @@ interface ClubbedResult {
   player?: PlayerData;
 }
 
+// A corrected result, as kept in sub_event_result_corrections
+interface ResultCorrection {
+  id: string;
+  match_stage: string;
+  original_result: MatchResult;
+  corrected_result: MatchResult;
+  invalidated_results: MatchResult[];
+  reason: string;
+  created_at: string;
+}
+
 interface Props {
   eventId: string;
   subEventId: string;
@@ -79,6 +154,11 @@ interface Props {
 // Type alias for Player to maintain backward compatibility
 type Player = PlayerData;
 
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
 // Type guard to check if the data matches SubEventParticipantData
 function isSubEventParticipantData(data: any): data is SubEventParticipantData {
   return data && 
@@ -96,14 +176,86 @@ export function SubEventClient({ eventId, subEventId }: Props) {
   const [eligiblePlayers, setEligiblePlayers] = useState<PlayerData[]>([]);
   const [selectedPlayerId, setSelectedPlayerId] = useState<string>('');
   const [loading, setLoading] = useState(true);
-  const [pools, setPools] = useState<Pool[]>([]);
+  const [storedDraw, setStoredDraw] = useState<StoredDraw | null>(null);
   const [matchResults, setMatchResults] = useState<any[]>([]);
-  const [selectedWinners, setSelectedWinners] = useState<Record<string, string>>({});
-  const [poolKnockoutMatches, setPoolKnockoutMatches] = useState<Record<string, KnockoutMatch[]>>({});
-  const [finalMatch, setFinalMatch] = useState<KnockoutMatch | null>(null);
-  const [thirdPlaceSelections, setThirdPlaceSelections] = useState<Record<string, string>>({});
   const [summaryResults, setSummaryResults] = useState<SummaryResult[]>([]);
   const [clubbedResults, setClubbedResults] = useState<ClubbedResult[]>([]);
+  const [corrections, setCorrections] = useState<ResultCorrection[]>([]);
+  const [protests, setProtests] = useState<Protest[]>([]);
+  const [weighInSession, setWeighInSession] = useState<WeighInSession | null>(null);
+  const [weighIns, setWeighIns] = useState<WeighIn[]>([]);
+  const [siblingSubEvents, setSiblingSubEvents] = useState<TransferCategory[]>([]);
+  // Athletes who did not make weight stay listed, but are left out of new
+  // draws; those withdrawn before the first bout are also taken out of the
+  // stored draw
+  const activeParticipants = participants.filter(p => p.status !== 'did_not_weigh_in');
+  const pools = useMemo(
+    () => (storedDraw ? hydrateDraw(storedDraw.draw, participants.filter(p => !p.removed_from_draw)) : []),
+    [storedDraw, participants]
+  );
+  const undrawnParticipants = storedDraw ? getUndrawnParticipants(storedDraw.draw, activeParticipants) : [];
+  // The draw keeps the system it was made with; the sub-event setting applies to the next draw
+  const competitionSystem: CompetitionSystem = storedDraw
+    ? getDrawSystem(storedDraw.draw)
+    : subEvent?.competition_system || DEFAULT_COMPETITION_SYSTEM;
+  const isRoundRobin = competitionSystem === 'round_robin';
+  // Single and double elimination show one bracket instead of pool group stages
+  const elimination = isEliminationSystem(competitionSystem);
+  const boutTime = regulationTime(subEvent || {});
+  // Everyone meets everyone in a round robin, so association spread does not apply
+  const associationConflicts = useMemo(
+    () => (isRoundRobin ? [] : findAssociationConflicts(pools)),
+    [isRoundRobin, pools]
+  );
+  const drawLocked = Boolean(storedDraw?.locked_at);
+  const bracket = useMemo(
+    () => buildBracket(isRoundRobin ? [] : pools, matchResults, competitionSystem),
+    [isRoundRobin, pools, matchResults, competitionSystem]
+  );
+  const poolKnockoutMatches = bracket.poolKnockoutMatches;
+  const finalMatch = bracket.finalMatch;
+  const roundRobinPlayers = useMemo(
+    () => (isRoundRobin ? pools.flatMap(pool => pool.groups.flatMap(group => group.players)) : []),
+    [isRoundRobin, pools]
+  );
+  const roundRobinMatches = useMemo(
+    () => createRoundRobinMatches(roundRobinPlayers, matchResults),
+    [roundRobinPlayers, matchResults]
+  );
+  const standings = useMemo(
+    () => getRoundRobinStandings(roundRobinPlayers, roundRobinMatches, matchResults),
+    [roundRobinPlayers, roundRobinMatches, matchResults]
+  );
+  const roundRobinComplete = roundRobinMatches.length > 0 && isRoundRobinComplete(roundRobinMatches);
+  const standingsRecorded = summaryResults.some(result => result.group_name === ROUND_ROBIN_POOL);
+  // Bouts held back while a protest against an earlier bout is open
+  const blockedBouts = useMemo(
+    () => new Set(
+      protests
+        .filter(protest => protest.status === 'open')
+        .flatMap(protest => getDependentBouts(pools, matchResults, competitionSystem, protest.match_stage))
+        .map(bout => bout.id)
+    ),
+    [protests, pools, matchResults, competitionSystem]
+  );
+  const boutsToCall = useMemo(
+    () => [
+      ...getBoutsToCall(bracket, matchResults),
+      ...roundRobinMatches.filter(match => !match.winner_id && !isDoubleWalkover(match.player1, match.player2))
+    ]
+      .filter(bout => !blockedBouts.has(bout.id)),
+    [bracket, matchResults, roundRobinMatches, blockedBouts]
+  );
+  // Bouts of athletes withdrawn after the weigh-in, waiting for an official to
+  // record them as walkovers
+  const withdrawalWalkovers = useMemo(
+    () => (drawLocked ? getWithdrawalWalkovers(boutsToCall) : []),
+    [drawLocked, boutsToCall]
+  );
+  // Active athletes who failed or missed the official weigh-in
+  const missedWeight = weighInSession
+    ? activeParticipants.filter(p => didNotMakeWeight(weighIns.filter(weighIn => weighIn.player_id === p.id), weighInSession))
+    : [];
   
   // Form states
   const [summaryFormData, setSummaryFormData] = useState({
@@ -123,6 +275,7 @@ export function SubEventClient({ eventId, subEventId }: Props) {
     fetchSubEventAndParticipants();
     fetchEligiblePlayers();
     fetchMatchResults();
+    fetchDraw();
   }, [eventId, subEventId]);
 
   useEffect(() => {
@@ -177,38 +330,63 @@ export function SubEventClient({ eventId, subEventId }: Props) {
     checkAndAddApprovedPlayers();
   }, [subEventId, parentEvent, subEvent, participants.length]);
 
-  useEffect(() => {
-    if (participants.length > 0) {
-      generatePools(participants);
-      // Also regenerate knockout matches when participants change
-      generateKnockoutMatches();
+
+
+  async function fetchDraw() {
+    try {
+      setStoredDraw(await fetchStoredDraw('sub_event', subEventId));
+    } catch (error) {
+      console.error('Error fetching draw:', error);
+    }
+  }
+
+  async function handleMakeDraw() {
+    if (activeParticipants.length < 2) {
+      alert('At least 2 participants are needed to make a draw');
+      return;
     }
-  }, [participants]);
 
-  useEffect(() => {
-    // Regenerate knockout matches when match results change
-    if (matchResults.length > 0 && participants.length > 0) {
-      generateKnockoutMatches();
+    const system = subEvent?.competition_system || DEFAULT_COMPETITION_SYSTEM;
+    if (system === 'round_robin' && activeParticipants.length > ROUND_ROBIN_MAX) {
+      alert(`A round robin is limited to ${ROUND_ROBIN_MAX} participants`);
+      return;
     }
-  }, [matchResults, participants]);
 
-  useEffect(() => {
-  const poolAFinalWinner = getPoolFinalWinner('Pool A');
-  const poolBFinalWinner = getPoolFinalWinner('Pool B');
-
-  if (poolAFinalWinner && poolBFinalWinner) {
-    const existingFinalResult = matchResults.find(r => r.match_stage === 'final');
-
-    setFinalMatch({
-      id: 'final',
-      player1: poolAFinalWinner,
-      player2: poolBFinalWinner,
-      winner_id: existingFinalResult?.winner_id,
-      stage: 'Championship Final'
-    });
+    try {
+      const draw = makeDraw(activeParticipants, createSeed(), system);
+      setStoredDraw(await saveDraw('sub_event', subEventId, draw));
+    } catch (error) {
+      console.error('Error making draw:', error);
+      alert(error instanceof Error ? error.message : 'Failed to make draw');
+    }
+  }
+
+  async function handleLockDraw() {
+    if (!confirm('Lock the draw? Pools and pairings cannot be changed once locked.')) return;
+
+    try {
+      setStoredDraw(await lockDraw('sub_event', subEventId));
+    } catch (error) {
+      console.error('Error locking draw:', error);
+      alert(error instanceof Error ? error.message : 'Failed to lock draw');
+    }
   }
-}, [poolKnockoutMatches, matchResults]);
 
+  async function updateCompetitionSystem(system: CompetitionSystem) {
+    try {
+      const { error } = await supabase
+        .from('sub_events')
+        .update({ competition_system: system })
+        .eq('id', subEventId);
+
+      if (error) throw error;
+
+      setSubEvent(prev => (prev ? { ...prev, competition_system: system } : prev));
+    } catch (error) {
+      console.error('Error updating competition system:', error);
+      alert('Failed to update format');
+    }
+  }
 
   async function fetchMatchResults() {
     try {
@@ -224,13 +402,10 @@ export function SubEventClient({ eventId, subEventId }: Props) {
 
       setMatchResults(data || []);
       
-      // After loading match results, organize knockout stages
-      if (data && data.length > 0) {
-        generateKnockoutMatches();
-      }
-      
       // Also fetch additional results after loading matches
       await fetchResults();
+      await fetchCorrections();
+      await refreshProtests();
     } catch (error) {
       console.error('Error:', error);
     }
@@ -309,6 +484,29 @@ export function SubEventClient({ eventId, subEventId }: Props) {
 }
 
 
+  async function fetchCorrections() {
+    const { data, error } = await supabase
+      .from('sub_event_result_corrections')
+      .select('*')
+      .eq('sub_event_id', subEventId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching result corrections:', error);
+      return;
+    }
+
+    setCorrections(data || []);
+  }
+
+  async function refreshProtests() {
+    try {
+      setProtests(await fetchProtests(subEventId));
+    } catch (error) {
+      console.error('Error fetching protests:', error);
+    }
+  }
+
   async function fetchSubEventAndParticipants() {
     setLoading(true);
     try {
@@ -352,6 +550,19 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         throw new Error(`No parent event found with ID: ${subEventData.event_id}`);
       }
 
+      // Other sub-events of the event, for transfers between categories
+      const { data: siblingData, error: siblingError } = await supabase
+        .from('sub_events')
+        .select('id, event_id, title, min_weight, max_weight, age_group, dob_range, event_date, event_end_date')
+        .eq('event_id', subEventData.event_id)
+        .neq('id', subEventId)
+        .order('min_weight');
+
+      if (siblingError) {
+        console.error('Error fetching sibling sub-events:', siblingError);
+      }
+      setSiblingSubEvents(siblingData || []);
+
       // Fetch participants
       const { data: participantsData, error: participantsError } = await supabase
         .from('sub_event_participants')
@@ -359,6 +570,9 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           id,
           player_id,
           sub_event_id,
+          seed_number,
+          status,
+          removed_from_draw,
           player:players(
             id,
             first_name,
@@ -390,11 +604,20 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           name: `${p.player?.first_name || ''} ${p.player?.last_name || ''}`.trim(),
           association: p.player?.registered_association || 'Unknown',
           weight: p.player?.weight || 0,
-          birth_date: p.player?.birth_date
+          birth_date: p.player?.birth_date,
+          seed_number: p.seed_number ?? null,
+          status: p.status || 'active',
+          removed_from_draw: Boolean(p.removed_from_draw),
+          withdrawn: p.status === 'did_not_weigh_in'
         }));
 
       setParticipants(formattedParticipants);
 
+      // Official weigh-in of the parent event, to flag athletes who failed it
+      const session = await fetchWeighInSession(parentEventData.id);
+      setWeighInSession(session);
+      setWeighIns(session ? (await fetchWeighIns(session.id)).filter(weighIn => weighIn.sub_event_id === subEventId) : []);
+
       // Fetch additional data
       await Promise.all([
         fetchMatchResults(),
@@ -438,19 +661,13 @@ export function SubEventClient({ eventId, subEventId }: Props) {
       // Get the list of approved player IDs
       const approvedPlayerIds = approvedApplications?.map(app => app.player_id) || [];
 
-      // Fetch eligible players based on event criteria and approved applications
+      // Fetch eligible players based on event criteria and approved applications.
+      // Age group and weight are checked below, the weight against the
+      // official weigh-in where there is one.
       const { data, error } = await supabase
         .from('players')
         .select('*')
         .in('id', approvedPlayerIds)
-        .gte('birth_date', subEvent.dob_range 
-          ? new Date(subEvent.dob_range.split(',')[0].replace('[', '')) 
-          : undefined)
-        .lte('birth_date', subEvent.dob_range 
-          ? new Date(subEvent.dob_range.split(',')[1].replace(']', '')) 
-          : undefined)
-        .gte('weight', subEvent.min_weight)
-        .lte('weight', subEvent.max_weight)
         .eq('gender', parentEvent.gender);
 
       if (error) {
@@ -470,10 +687,14 @@ export function SubEventClient({ eventId, subEventId }: Props) {
       }
 
       const existingParticipantIds = existingParticipants?.map(p => p.player_id) || [];
+      const { weights, tolerance } = await fetchOfficialWeights(parentEvent.id);
       
-      const filteredPlayers = data?.filter(
-        player => !existingParticipantIds.includes(player.id)
-      ) || [];
+      const filteredPlayers = data?.filter(player => {
+        const official = weights[player.id];
+        return !existingParticipantIds.includes(player.id) &&
+          isInAgeGroup(player.birth_date, subEvent) &&
+          isWithinCategory(official ?? player.weight, subEvent, official === undefined ? 0 : tolerance);
+      }) || [];
 
       setEligiblePlayers(filteredPlayers);
     } catch (error) {
@@ -481,219 +702,26 @@ export function SubEventClient({ eventId, subEventId }: Props) {
     }
   }
 
-  function generatePools(players: Player[]) {
-    // Randomly shuffle players
-    const shuffledPlayers = [...players].sort(() => Math.random() - 0.5);
-    
-    // Split players into two pools
-    const midPoint = Math.ceil(shuffledPlayers.length / 2);
-    const poolAPlayers = shuffledPlayers.slice(0, midPoint);
-    const poolBPlayers = shuffledPlayers.slice(midPoint);
-
-    // Create groups within pools
-    const poolA = createPoolGroups(poolAPlayers, 'A');
-    const poolB = createPoolGroups(poolBPlayers, 'B');
-
-    setPools([poolA, poolB]);
-  }
-
-  function createPoolGroups(players: Player[], poolName: string): Pool {
-    const groups = [];
-    let currentPlayers = [...players];
-    let groupIndex = 0;
-    
-    // Get pool number for hierarchical naming (A=1, B=2)
-    const poolNumber = poolName === 'A' ? 1 : 2;
-
-    while (currentPlayers.length > 0) {
-      // Create hierarchical group name (e.g., 1.1, 1.2 for Pool A; 2.1, 2.2 for Pool B)
-      const groupName = `${poolNumber}.${groupIndex + 1}`;
-      
-      const group = {
-        name: groupName,
-        players: [] as Player[]
-      };
-
-      group.players.push(currentPlayers[0]);
-      currentPlayers = currentPlayers.slice(1);
-
-      if (currentPlayers.length > 0) {
-        const differentStatePlayerIndex = currentPlayers.findIndex(
-          p => p.association !== group.players[0].association
-        );
-
-        if (differentStatePlayerIndex !== -1) {
-          group.players.push(currentPlayers[differentStatePlayerIndex]);
-          currentPlayers = currentPlayers.filter((_, i) => i !== differentStatePlayerIndex);
-        }
-      }
-
-      groups.push(group);
-      groupIndex++;
-    }
-
-    return {
-      name: `Pool ${poolName}`,
-      groups
-    };
-  }
-
-  // New functions for knockout stages
-  function generateKnockoutMatches() {
-    // Get winners from each pool
-    const poolAWinners = getPoolWinners('Pool A');
-    const poolBWinners = getPoolWinners('Pool B');
-    
-    // Create knockout matches for each pool
-    const poolAMatches: KnockoutMatch[] = [];
-    const poolBMatches: KnockoutMatch[] = [];
-    
-    createKnockoutMatchesForPool(poolAWinners, 'Pool A', poolAMatches);
-    createKnockoutMatchesForPool(poolBWinners, 'Pool B', poolBMatches);
-    
-    // Update the poolKnockoutMatches state
-    setPoolKnockoutMatches({
-      'Pool A': poolAMatches,
-      'Pool B': poolBMatches
-    });
-    
-    // Set up final match
-    if (poolAWinners.length > 0 && poolBWinners.length > 0) {
-      const poolAFinalWinner = getPoolFinalWinner('Pool A');
-      const poolBFinalWinner = getPoolFinalWinner('Pool B');
-      
-    }
-  }
-  
-  function createKnockoutMatchesForPool(
-    poolPlayers: Player[], 
-    poolName: string,
-    matchesArray: KnockoutMatch[]
-  ) {
-    if (poolPlayers.length <= 1) {
-      return; // We have a winner or no players
-    }
-    
-    // For odd number of players, the first player gets a bye to the next round
-    const remainingPlayers = [...poolPlayers];
-    const nextRoundPlayers: Player[] = [];
-    
-    // Keep track of which round we're in
-    const roundIndex = matchesArray.length > 0 ? 
-      Math.floor(matchesArray.length / Math.ceil(poolPlayers.length / 2)) + 1 : 1;
-    
-    // If odd number of players, first player gets a bye
-    if (remainingPlayers.length % 2 !== 0) {
-      nextRoundPlayers.push(remainingPlayers.shift()!);
-    }
-    
-    // Create matches for this round
-    while (remainingPlayers.length > 0) {
-      const player1 = remainingPlayers.shift();
-      const player2 = remainingPlayers.shift();
-      
-      if (player1 && player2) {
-        // Use pool number for hierarchical naming (A=1, B=2)
-        const poolNumber = poolName === 'Pool A' ? 1 : 2;
-        const matchId = `knockout-${poolNumber}.${roundIndex}-match${matchesArray.length}`;
-        
-        const existingResult = matchResults.find(r => r.match_stage === matchId);
-        
-        const match: KnockoutMatch = {
-          id: matchId,
-          player1,
-          player2,
-          winner_id: existingResult?.winner_id,
-          stage: `Round ${roundIndex} Match ${matchesArray.length + 1}`
-        };
-        
-        matchesArray.push(match);
-        
-        // If we have a winner for this match, add them to the next round
-        if (existingResult?.winner_id) {
-          const winner = participants.find(p => p.id === existingResult.winner_id);
-          if (winner) {
-            nextRoundPlayers.push(winner);
-          }
-        }
-      }
-    }
-    
-    // If we have players for the next round, continue creating matches
-    if (nextRoundPlayers.length > 1) {
-      createKnockoutMatchesForPool(nextRoundPlayers, poolName, matchesArray);
-    }
-  }
-  
   function getPoolWinners(poolName: string): Player[] {
-    const pool = pools.find(p => p.name === poolName);
-    if (!pool) return [];
-    
-    return pool.groups
-      .map(group => {
-        const matchResult = getMatchResult(poolName, group.name);
-        if (matchResult) {
-          return participants.find(p => p.id === matchResult.winner_id);
-        } else if (group.players.length === 1) {
-          // Auto-qualified player
-          return group.players[0];
-        }
-        return undefined;
-      })
-      .filter((player): player is Player => player !== undefined);
+    return bracket.poolWinners[poolName] || [];
   }
-  
+
   function getPoolFinalWinner(poolName: string): Player | undefined {
-    const poolWinners = getPoolWinners(poolName);
-    if (poolWinners.length === 0) return undefined;
-    
-    const knockoutMatches = poolKnockoutMatches[poolName] || [];
-    if (knockoutMatches.length === 0) {
-      // If there are no knockout matches but we have a winner (only one player in the pool)
-      return poolWinners.length === 1 ? poolWinners[0] : undefined;
-    }
-    
-    // Find the last knockout match with a winner
-    const completedMatches = knockoutMatches.filter(m => m.winner_id);
-    if (completedMatches.length === 0) return undefined;
-    
-    // In a properly structured tournament, the last match winner is the pool winner
-    const finalRoundMatches = knockoutMatches.filter(match => {
-      // Count how many times this player appears in other matches as player1 or player2
-      const player1AppearanceCount = knockoutMatches.filter(m => 
-        m.player1?.id === match.player1?.id || m.player2?.id === match.player1?.id
-      ).length;
-      
-      const player2AppearanceCount = knockoutMatches.filter(m => 
-        m.player1?.id === match.player2?.id || m.player2?.id === match.player2?.id
-      ).length;
-      
-      // If both players only appear once, this is likely a first-round match
-      // If either player appears more than once, this is a later-round match
-      return player1AppearanceCount > 1 || player2AppearanceCount > 1;
-    });
-    
-    if (finalRoundMatches.length > 0) {
-      // Use the last match with a winner from the final round
-      const finalMatch = finalRoundMatches.find(m => m.winner_id);
-      if (finalMatch?.winner_id) {
-        return participants.find(p => p.id === finalMatch.winner_id);
-      }
-    }
-    
-    // Fallback: use the last completed match's winner
-    const lastCompletedMatch = completedMatches[completedMatches.length - 1];
-    return participants.find(p => p.id === lastCompletedMatch.winner_id);
-  }
-  
-  function getThirdPlaceResult(pool: string) {
-    return matchResults.find(result => result.match_stage === `third-place-${pool}`);
+    return bracket.poolFinalWinners[poolName];
   }
 
   function getMatchResult(pool: string, groupName: string) {
-    // Create the match stage ID using the hierarchical format
-    const matchStageId = `${pool}-${groupName}`;
-    return matchResults.find(result => result.match_stage === matchStageId);
+    return findResult(matchResults, groupStageId(pool, groupName));
+  }
+
+  // Win type of the bout a summary result was recorded from; bronzes and
+  // round-robin places have no single bout
+  function summaryWinType(result: SummaryResult) {
+    const finalStage = competitionSystem !== 'double_elimination'
+      ? 'final'
+      : findResult(matchResults, 'grand-final-reset') ? 'grand-final-reset' : 'grand-final';
+    const bout = findResult(matchResults, result.group_name === 'Final' ? finalStage : result.group_name);
+    return bout?.win_type ? WIN_TYPE_LABELS[bout.win_type] : '–';
   }
 
   async function addParticipant() {
@@ -726,17 +754,120 @@ export function SubEventClient({ eventId, subEventId }: Props) {
     }
   }
   
-  function handleWinnerSelection(groupId: string, winnerId: string) {
-    setSelectedWinners(prev => ({ ...prev, [groupId]: winnerId }));
+  async function updateSeedNumber(playerId: string, seedNumber: number | null) {
+    if (seedNumber !== null && participants.some(p => p.id !== playerId && p.seed_number === seedNumber)) {
+      alert(`Seed ${seedNumber} is already assigned to another participant`);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('sub_event_participants')
+      .update({ seed_number: seedNumber })
+      .eq('sub_event_id', subEventId)
+      .eq('player_id', playerId);
+
+    if (error) {
+      console.error('Error updating seed number:', error);
+      alert('Failed to update seed');
+      return;
+    }
+
+    setParticipants(prev => prev.map(p => (p.id === playerId ? { ...p, seed_number: seedNumber } : p)));
+  }
+
+  // Withdraws athletes who did not make weight and records the withdrawal in
+  // the clubbed results. An athlete who has not fought yet is taken out of the
+  // draw; once they have, their bouts are listed as walkovers due. A round
+  // robin is scheduled from everyone in it, so once it has started nobody is
+  // taken out.
+  async function withdrawAthletes(players: Player[]) {
+    const staysInDraw = (player: Player) =>
+      (isRoundRobin && matchResults.length > 0) ||
+      matchResults.some(result => result.player1_id === player.id || result.player2_id === player.id);
+    const removed = players.filter(player => !staysInDraw(player));
+    const staying = players.filter(staysInDraw);
+    const message = [
+      removed.length > 0 && `${removed.map(p => p.name).join(', ')} will be taken out of the draw.`,
+      staying.length > 0 && `The bouts of ${staying.map(p => p.name).join(', ')} will be listed as walkovers to record.`
+    ].filter(Boolean).join(' ');
+    if (!confirm(`Withdraw ${players.map(p => p.name).join(', ')} for not making weight? ${message}`)) return;
+
+    try {
+      for (const player of players) {
+        await withdrawParticipant(subEventId, player.id, !staysInDraw(player));
+        await saveClubbedResult(player.id, 'Withdrawn', `Did not weigh in - ${subEvent?.title || 'Sub Event'}`);
+      }
+
+      const removedIds = new Set(removed.map(p => p.id));
+      const ids = new Set(players.map(p => p.id));
+      setParticipants(prev => prev.map(p => (
+        ids.has(p.id) ? { ...p, status: 'did_not_weigh_in', removed_from_draw: removedIds.has(p.id), withdrawn: true } : p
+      )));
+    } catch (error) {
+      console.error('Error withdrawing participants:', error);
+      alert('Failed to withdraw participant');
+    }
+  }
+
+  // Moves an athlete whose weight puts them in another category of the event.
+  // Resolves to whether they were moved; a refusal has been reported.
+  async function handleTransfer(player: Player, target: TransferCategory): Promise<boolean> {
+    if (!subEvent) return false;
+
+    try {
+      await transferParticipant(player, subEvent, target);
+      await fetchDraw();
+      await fetchSubEventAndParticipants();
+      return true;
+    } catch (error) {
+      console.error('Error transferring participant:', error);
+      alert(error instanceof Error ? error.message : 'Failed to transfer participant');
+      return false;
+    }
+  }
+
+  // Records every walkover due once an official confirms it. Each result can
+  // pair the next bout of a withdrawn athlete, which is listed again after the
+  // results are reloaded.
+  async function handleRecordWalkovers() {
+    const due = withdrawalWalkovers
+      .map(({ bout, winner }) => `${bout.stage}: walkover to ${winner.name}`)
+      .join('\n');
+    if (!confirm(`Record these walkovers?\n\n${due}`)) return;
+
+    for (const { bout, winner } of withdrawalWalkovers) {
+      await recordWalkover(bout, winner.id);
+    }
+    await fetchMatchResults();
   }
 
-  async function handleSaveWinner(pool: string, group: string, players: Player[]) {
+  // Gives a bout of a withdrawn athlete to their opponent, through the same
+  // handler the bout's card uses, so group winners and medals are recorded too
+  async function recordWalkover(bout: KnockoutMatch<Player>, winnerId: string) {
+    const outcome: BoutOutcome = { winType: 'walkover', breakdown: null };
+    const groupBout = pools
+      .flatMap(pool => pool.groups.map(group => ({ pool, group })))
+      .find(({ pool, group }) => groupStageId(pool.name, group.name) === bout.id);
+    const repechagePool = Object.keys(bracket.poolRepechageMatches)
+      .find(poolName => bracket.poolRepechageMatches[poolName].some(match => match.id === bout.id));
+
+    if (groupBout) {
+      await handleSaveWinner(groupBout.pool.name, groupBout.group.name, groupBout.group.players, winnerId, outcome);
+    } else if (bout.id === 'final') {
+      await handleFinalWinnerSelection(winnerId, outcome);
+    } else if (bout.id.startsWith('grand-final')) {
+      await handleGrandFinalWinnerSelection(bout, winnerId, outcome);
+    } else if (repechagePool) {
+      await handleRepechageWinnerSelection(repechagePool, bout, winnerId, outcome);
+    } else {
+      await handleKnockoutWinnerSelection(bout.id, winnerId, bout.player1!.id, bout.player2!.id, outcome);
+    }
+  }
+
+  async function handleSaveWinner(pool: string, group: string, players: Player[], winnerId: string, outcome: BoutOutcome) {
     if (players.length < 2) return;
     
-    const groupId = `${pool}-${group}`;
-    const winnerId = selectedWinners[groupId];
-    
-    if (!winnerId) return;
+    const groupId = groupStageId(pool, group);
     
     try {
       // Check if a result already exists for this group
@@ -759,7 +890,8 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           .update({
             player1_id: players[0].id,
             player2_id: players[1].id,
-            winner_id: winnerId
+            winner_id: winnerId,
+            ...toResultFields(outcome)
           })
           .eq('id', existingResults.id);
           
@@ -768,16 +900,17 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           return;
         }
       } else {
-        // Insert new result
+        // Save new result; an upsert, so a bout saved from two tabs is stored once
         const { data, error } = await supabase
           .from('sub_event_match_results')
-          .insert([{
+          .upsert([{
             sub_event_id: subEventId,
             player1_id: players[0].id,
             player2_id: players[1].id,
             winner_id: winnerId,
-            match_stage: groupId
-          }])
+            match_stage: groupId,
+            ...toResultFields(outcome)
+          }], { onConflict: 'sub_event_id,match_stage' })
           .select();
           
         if (error) {
@@ -808,9 +941,6 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         await saveSummaryResult(groupId, winnerId, 'pool', 'winner');
       }
       
-      // Regenerate knockout matches to update the UI
-      generateKnockoutMatches();
-      
       // Refresh match results
       await fetchMatchResults();
     } catch (error) {
@@ -818,7 +948,13 @@ export function SubEventClient({ eventId, subEventId }: Props) {
     }
   }
   
-  async function handleKnockoutWinnerSelection(matchId: string, winnerId: string, player1Id: string, player2Id: string) {
+  async function handleKnockoutWinnerSelection(
+    matchId: string,
+    winnerId: string,
+    player1Id: string,
+    player2Id: string,
+    outcome: BoutOutcome
+  ) {
     try {
       // Check if a result already exists
       const existingResult = matchResults.find(
@@ -830,7 +966,8 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         const { error } = await supabase
           .from('sub_event_match_results')
           .update({
-            winner_id: winnerId
+            winner_id: winnerId,
+            ...toResultFields(outcome)
           })
           .eq('id', existingResult.id);
           
@@ -842,13 +979,14 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         // Create new result
         const { data, error } = await supabase
           .from('sub_event_match_results')
-          .insert([{
+          .upsert([{
             sub_event_id: subEventId,
             player1_id: player1Id,
             player2_id: player2Id,
             winner_id: winnerId,
-            match_stage: matchId
-          }])
+            match_stage: matchId,
+            ...toResultFields(outcome)
+          }], { onConflict: 'sub_event_id,match_stage' })
           .select();
           
         if (error) {
@@ -858,36 +996,13 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         
         // Update local state
         setMatchResults([...matchResults, ...(data || [])]);
-        
-        // For semifinal matches, record the loser as a semifinalist in summary results
-        if (matchId.includes('knockout') && matchId.includes('Round 2')) {
-          const loserId = winnerId === player1Id ? player2Id : player1Id;
-          const loserPlayer = participants.find(p => p.id === loserId);
-          
-          if (loserPlayer) {
-            // Check if this semifinalist entry already exists
-            const { data: existingSemifinalist } = await supabase
-              .from('sub_event_summary_results')
-              .select('*')
-              .eq('sub_event_id', subEventId)
-              .eq('player_id', loserId)
-              .eq('position', 'semi_finalist');
-              
-            if (!existingSemifinalist || existingSemifinalist.length === 0) {
-              await saveSummaryResult(matchId, loserId, 'pool', 'semi_finalist');
-            }
-          }
-        }
       }
-      
-      // Regenerate knockout matches to update the UI
-      generateKnockoutMatches();
     } catch (error) {
       console.error('Error:', error);
     }
   }
   
-  async function handleFinalWinnerSelection(winnerId: string) {
+  async function handleFinalWinnerSelection(winnerId: string, outcome: BoutOutcome) {
     if (!finalMatch || !finalMatch.player1 || !finalMatch.player2) return;
     
     try {
@@ -899,13 +1014,14 @@ export function SubEventClient({ eventId, subEventId }: Props) {
       // Save final match result
       const { data, error } = await supabase
         .from('sub_event_match_results')
-        .insert([{
+        .upsert([{
           sub_event_id: subEventId,
           player1_id: player1Id,
           player2_id: player2Id,
           winner_id: winnerId,
-          match_stage: 'final'
-        }])
+          match_stage: 'final',
+          ...toResultFields(outcome)
+        }], { onConflict: 'sub_event_id,match_stage' })
         .select();
         
       if (error) {
@@ -915,10 +1031,34 @@ export function SubEventClient({ eventId, subEventId }: Props) {
       
       // Update local state
       setMatchResults([...matchResults, ...(data || [])]);
+
+      // In double elimination this is only the winners-bracket final; the
+      // medals are decided in the grand final
+      if (competitionSystem !== 'double_elimination') {
+        await recordChampion(winnerId, runnerId);
+      }
       
-      // Update final match state
-      setFinalMatch(prev => prev ? { ...prev, winner_id: winnerId } : null);
-      
+      // Refresh match results to update UI
+      await fetchMatchResults();
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  }
+
+  async function handleGrandFinalWinnerSelection(match: KnockoutMatch<Player>, winnerId: string, outcome: BoutOutcome) {
+    if (!match.player1 || !match.player2) return;
+
+    await handleKnockoutWinnerSelection(match.id, winnerId, match.player1.id, match.player2.id, outcome);
+
+    // player1 is the winners-bracket champion; if they lose the first grand
+    // final it goes to a reset bout
+    if (match.id === 'grand-final-reset' || winnerId === match.player1.id) {
+      await recordChampion(winnerId, winnerId === match.player1.id ? match.player2.id : match.player1.id);
+    }
+  }
+
+  async function recordChampion(winnerId: string, runnerId: string) {
+    try {
       // Create summary results for champion and runner-up
       await saveSummaryResult('Final', winnerId, 'final', 'winner');
       await saveSummaryResult('Final', runnerId, 'final', 'runner_up');
@@ -942,64 +1082,220 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           `Runner-up - ${subEvent?.title || 'Sub Event'}`
         );
       }
-      
-      // Refresh match results to update UI
-      await fetchMatchResults();
     } catch (error) {
       console.error('Error:', error);
     }
   }
   
-  function handleThirdPlaceSelection(pool: string, playerId: string) {
-    setThirdPlaceSelections(prev => ({ ...prev, [pool]: playerId }));
+  async function handleRepechageWinnerSelection(
+    poolName: string,
+    match: KnockoutMatch<Player>,
+    winnerId: string,
+    outcome: BoutOutcome
+  ) {
+    if (!match.player1 || !match.player2) return;
+
+    await handleKnockoutWinnerSelection(match.id, winnerId, match.player1.id, match.player2.id, outcome);
+
+    // The last repechage bout decides the pool's bronze medal
+    if (match.id.startsWith('bronze-')) {
+      await recordBronze(poolName, winnerId);
+    }
+  }
+
+  function hasBronzeResult(playerId: string) {
+    return summaryResults.some(result => result.player_id === playerId && result.position === 'bronze');
+  }
+
+  async function recordBronze(poolName: string, playerId: string) {
+    if (hasBronzeResult(playerId)) return;
+
+    await saveSummaryResult(poolName, playerId, 'pool', 'bronze');
+    await saveClubbedResult(playerId, '3rd', `Bronze medal - ${poolName}`);
   }
   
-  async function saveThirdPlace(pool: string, playerId: string) {
+  // Fills the Finals, Summary and Clubbed results from the final round-robin standings
+  async function recordRoundRobinStandings() {
+    if (!roundRobinComplete || standingsRecorded) return;
+    await saveRoundRobinStandings(standings);
+  }
+
+  async function saveRoundRobinStandings(finalStandings: Standing<Player>[]) {
+    const title = subEvent?.title || 'Sub Event';
+    for (const { player, rank } of finalStandings) {
+      const position = rank === 1 ? 'winner' : rank === 2 ? 'runner_up' : rank === 3 ? 'bronze' : 'participant';
+      await saveSummaryResult(ROUND_ROBIN_POOL, player.id, 'final', position);
+
+      const remarks = rank === 1
+        ? `Champion - ${title}`
+        : rank === 2
+          ? `Runner-up - ${title}`
+          : rank === 3
+            ? `Bronze medal - ${title}`
+            : `Round robin ${ordinal(rank)} place - ${title}`;
+      await saveClubbedResult(player.id, rank <= 3 ? ordinal(rank) : 'Participant', remarks);
+    }
+  }
+
+  function participantName(playerId: string) {
+    return participants.find(p => p.id === playerId)?.name || 'Unknown';
+  }
+
+  // Replaces a saved result. The original is kept in the corrections history,
+  // later results paired from it are removed, and the summary and clubbed rows
+  // derived from the changed bouts and medals are recorded again.
+  // Resolves to whether the correction was saved; a failure has been reported
+  async function handleCorrectResult(corrected: MatchResult, reason: string): Promise<boolean> {
+    const original = findResult(matchResults, corrected.match_stage);
+    if (!original) return false;
+
+    const preview = previewCorrection(pools, matchResults, competitionSystem, corrected);
+    const invalidated = preview.invalidated.map(({ result }) => result as MatchResult & { id: string });
+    const changedStages = [corrected.match_stage, ...invalidated.map(result => result.match_stage)];
+
     try {
-      const { data, error } = await supabase
-        .from('sub_event_match_results')
+      const { error: historyError } = await supabase
+        .from('sub_event_result_corrections')
         .insert([{
           sub_event_id: subEventId,
-          player1_id: playerId,
-          player2_id: playerId, // Same as player1 since it's a manual selection
-          winner_id: playerId,
-          match_stage: `third-place-${pool}`
-        }])
-        .select();
-        
-      if (error) {
-        console.error('Error saving third place:', error);
-        return;
+          match_stage: corrected.match_stage,
+          original_result: original,
+          corrected_result: corrected,
+          invalidated_results: invalidated,
+          reason
+        }]);
+      if (historyError) throw historyError;
+
+      const { error: updateError } = await supabase
+        .from('sub_event_match_results')
+        .update({
+          winner_id: corrected.winner_id,
+          win_type: corrected.win_type,
+          player1_score: corrected.player1_score,
+          player2_score: corrected.player2_score,
+          score_breakdown: corrected.score_breakdown,
+          duration_seconds: corrected.duration_seconds,
+          console_log: corrected.console_log
+        })
+        .eq('id', (original as MatchResult & { id: string }).id);
+      if (updateError) throw updateError;
+
+      if (invalidated.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('sub_event_match_results')
+          .delete()
+          .in('id', invalidated.map(result => result.id));
+        if (deleteError) throw deleteError;
       }
-      
-      setMatchResults([...matchResults, ...(data || [])]);
-      
-      // Automatically create summary result for third place
-      const { data: existingSummary } = await supabase
+
+      // Group winners and semi-finalists are recorded against their bout
+      const { error: summaryError } = await supabase
         .from('sub_event_summary_results')
-        .select('*')
+        .delete()
         .eq('sub_event_id', subEventId)
-        .eq('player_id', playerId)
-        .eq('position', 'bronze');
-        
-      if (!existingSummary || existingSummary.length === 0) {
-        await saveSummaryResult(pool, playerId, 'pool', 'bronze');
-        
-        // Also create clubbed result
-        const player = participants.find(p => p.id === playerId);
-        if (player) {
-          await saveClubbedResult(
-            playerId,
-            '3rd',
-            `Bronze medal - ${pool}`
-          );
+        .in('group_name', changedStages);
+      if (summaryError) throw summaryError;
+
+      const groupBout = pools.some(pool => pool.groups.some(group => groupStageId(pool.name, group.name) === corrected.match_stage));
+      if (groupBout) {
+        await saveSummaryResult(corrected.match_stage, corrected.winner_id, 'pool', 'winner');
+      }
+
+      if (isRoundRobin && standingsRecorded) {
+        await clearMedalResults(ROUND_ROBIN_POOL);
+        const matches = createRoundRobinMatches(roundRobinPlayers, preview.results);
+        await saveRoundRobinStandings(getRoundRobinStandings(roundRobinPlayers, matches, preview.results));
+      } else if (!isRoundRobin && medalsChanged(preview)) {
+        await clearMedalResults();
+        const correctedBracket = buildBracket(pools, preview.results, competitionSystem);
+        if (correctedBracket.champion && correctedBracket.runnerUp) {
+          await recordChampion(correctedBracket.champion.id, correctedBracket.runnerUp.id);
+        }
+        const bronzes: [string, Player | undefined][] = [
+          ...Object.entries(correctedBracket.bronzeMedallists),
+          ['Losers Bracket', correctedBracket.losersBronze]
+        ];
+        for (const [poolName, player] of bronzes) {
+          if (!player) continue;
+          await saveSummaryResult(poolName, player.id, 'pool', 'bronze');
+          await saveClubbedResult(player.id, '3rd', `Bronze medal - ${poolName}`);
         }
       }
+
+      await fetchMatchResults();
+      return true;
     } catch (error) {
-      console.error('Error:', error);
+      console.error('Error correcting result:', error);
+      alert('Failed to correct result');
+      return false;
     }
   }
-  
+
+  // Removes the medal rows from the summary and clubbed results so they can be
+  // recorded again; in a round robin every standings row goes
+  async function clearMedalResults(roundRobinPool?: string) {
+    const summary = supabase
+      .from('sub_event_summary_results')
+      .delete()
+      .eq('sub_event_id', subEventId);
+    const { error: summaryError } = roundRobinPool
+      ? await summary.eq('group_name', roundRobinPool)
+      : await summary.or('group_name.eq.Final,position.eq.bronze');
+    if (summaryError) throw summaryError;
+
+    const { error: clubbedError } = await supabase
+      .from('sub_event_clubbed_results')
+      .delete()
+      .eq('sub_event_id', subEventId)
+      .in('rank', roundRobinPool ? ['1st', '2nd', '3rd', 'Participant'] : ['1st', '2nd', '3rd']);
+    if (clubbedError) throw clubbedError;
+  }
+
+  async function handleFileProtest(result: MatchResult, playerId: string, reason: string, fee: number) {
+    const row = findResult(matchResults, result.match_stage) as (MatchResult & { id: string }) | undefined;
+    if (!row) return;
+
+    try {
+      await fileProtest(subEventId, {
+        match_result_id: row.id,
+        match_stage: row.match_stage,
+        protesting_player_id: playerId,
+        reason,
+        fee_amount: fee
+      });
+      await refreshProtests();
+    } catch (error) {
+      console.error('Error filing protest:', error);
+      alert('Failed to file protest');
+    }
+  }
+
+  async function handleDecideProtest(
+    protest: Protest,
+    status: Exclude<ProtestStatus, 'open'>,
+    notes: string,
+    resultChanged: boolean
+  ) {
+    try {
+      await decideProtest(protest.id, status, notes, resultChanged);
+      await refreshProtests();
+    } catch (error) {
+      console.error('Error deciding protest:', error);
+      alert('Failed to record the jury decision');
+    }
+  }
+
+  const protestHandlers: ProtestHandlers = {
+    protests,
+    file: handleFileProtest,
+    decide: handleDecideProtest
+  };
+
+  const correction: CorrectionHandlers = {
+    preview: corrected => previewCorrection(pools, matchResults, competitionSystem, corrected),
+    apply: handleCorrectResult
+  };
+
   // Functions for saving summary and clubbed results
   async function saveSummaryResult(groupName: string, playerId: string, resultType: 'pool' | 'final', position: 'winner' | 'runner_up' | 'bronze' | 'semi_finalist' | 'participant') {
     try {
@@ -1100,13 +1396,72 @@ export function SubEventClient({ eventId, subEventId }: Props) {
           </div>
           
           <div>
-            <h3 className="text-lg font-medium mb-2">Participants ({participants.length})</h3>
-            <div className="max-h-32 overflow-y-auto">
+            <h3 className="text-lg font-medium mb-2">Participants ({activeParticipants.length})</h3>
+            {missedWeight.length > 0 && (
+              <div className="mb-2 flex items-center justify-between gap-2 rounded border border-red-200 bg-red-50 p-2 text-sm text-red-700">
+                <span>Did not make weight: {missedWeight.map(p => p.name).join(', ')}</span>
+                <Button size="sm" variant="outline" onClick={() => withdrawAthletes(missedWeight)}>
+                  Withdraw
+                </Button>
+              </div>
+            )}
+            <div className="max-h-48 overflow-y-auto">
               {participants.length > 0 ? (
                 <ul className="text-sm">
                   {participants.map(player => (
-                    <li key={player.id} className="mb-1">
-                      {player.name} - {player.association}
+                    <li key={player.id} className="mb-1 flex items-center justify-between gap-2">
+                      <span>
+                        <span className={player.status === 'did_not_weigh_in' ? 'text-muted-foreground line-through' : ''}>
+                          {player.name} - {player.association}
+                        </span>
+                        {player.status === 'did_not_weigh_in' ? (
+                          <span className="ml-2 text-xs text-red-700">
+                            Did not weigh in – {player.removed_from_draw ? 'removed from the draw' : 'walkovers'}
+                          </span>
+                        ) : weighInSession && (() => {
+                          const status = weighInStatus(weighIns.filter(weighIn => weighIn.player_id === player.id), weighInSession);
+                          return (status === 'failed' || status === 'recheck') && (
+                            <span className={`ml-2 text-xs ${status === 'failed' ? 'text-red-700' : 'text-yellow-700'}`}>
+                              {WEIGH_IN_STATUS_LABELS[status]}
+                            </span>
+                          );
+                        })()}
+                      </span>
+                      {player.status === 'did_not_weigh_in' ? null : (
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 text-xs"
+                            onClick={() => withdrawAthletes([player])}
+                          >
+                            Did not weigh in
+                          </Button>
+                          <TransferDialog
+                            athlete={player}
+                            subEvent={subEvent}
+                            siblings={siblingSubEvents}
+                            officialWeight={weighIns.filter(weighIn => weighIn.player_id === player.id).pop()?.weight}
+                            tolerance={weighInSession?.tolerance_kg}
+                            onTransfer={target => handleTransfer(player, target)}
+                          />
+                          <Select
+                            value={player.seed_number ? String(player.seed_number) : 'none'}
+                            onValueChange={(value) => updateSeedNumber(player.id, value === 'none' ? null : Number(value))}
+                            disabled={drawLocked}
+                          >
+                            <SelectTrigger className="h-7 w-24 text-xs">
+                              <SelectValue placeholder="Seed" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Unseeded</SelectItem>
+                              {Array.from({ length: MAX_SEEDS }, (_, i) => i + 1).map(seed => (
+                                <SelectItem key={seed} value={String(seed)}>Seed {seed}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
                     </li>
                   ))}
                 </ul>
@@ -1150,9 +1505,9 @@ export function SubEventClient({ eventId, subEventId }: Props) {
       
       {/* Tournament Management Tabs */}
       <Tabs defaultValue="group-stage" className="w-full">
-        <TabsList className="grid grid-cols-5 w-full">
-          <TabsTrigger value="group-stage">Group Stage</TabsTrigger>
-          <TabsTrigger value="knockout-stage">Knockout Stage</TabsTrigger>
+        <TabsList className={`grid ${isRoundRobin || elimination ? 'grid-cols-4' : 'grid-cols-5'} w-full`}>
+          <TabsTrigger value="group-stage">{isRoundRobin ? 'Round Robin' : elimination ? 'Bracket' : 'Group Stage'}</TabsTrigger>
+          {!isRoundRobin && !elimination && <TabsTrigger value="knockout-stage">Knockout Stage</TabsTrigger>}
           <TabsTrigger value="finals">Finals</TabsTrigger>
           <TabsTrigger value="summary-results">Summary Results</TabsTrigger>
           <TabsTrigger value="clubbed-results">Clubbed Results</TabsTrigger>
@@ -1160,59 +1515,365 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         
         {/* Group Stage */}
         <TabsContent value="group-stage">
+          <Card className="p-4 mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div>
+                <h3 className="font-semibold">Draw</h3>
+                <p className="text-sm text-gray-600">
+                  Format: {competitionSystemLabel(competitionSystem)}
+                </p>
+                {!storedDraw ? (
+                  <p className="text-sm text-gray-600">No draw has been made yet</p>
+                ) : drawLocked ? (
+                  <p className="text-sm text-green-600">
+                    Locked on {new Date(storedDraw.locked_at!).toLocaleString()}
+                  </p>
+                ) : (
+                  <p className="text-sm text-yellow-700">
+                    Draft draw – lock it before recording results
+                  </p>
+                )}
+                {associationConflicts.length > 0 && (
+                  <p className="text-sm text-orange-600">
+                    {associationConflicts.length} association conflict{associationConflicts.length === 1 ? '' : 's'} could not be avoided – see the draw report
+                  </p>
+                )}
+                {undrawnParticipants.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Not in the draw: {undrawnParticipants.map(p => p.name).join(', ')}
+                  </p>
+                )}
+                {withdrawalWalkovers.length > 0 && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-red-700">
+                    <span>
+                      Walkovers due: {withdrawalWalkovers.map(({ bout, winner }) => `${bout.stage} to ${winner.name}`).join(', ')}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={handleRecordWalkovers}>
+                      Record Walkovers
+                    </Button>
+                  </div>
+                )}
+                {!drawLocked && subEvent.competition_system !== 'round_robin' &&
+                  activeParticipants.length >= ROUND_ROBIN_MIN && activeParticipants.length <= ROUND_ROBIN_MAX && (
+                  <p className="text-sm text-blue-600">
+                    With {activeParticipants.length} participants a round robin is recommended
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {!drawLocked && (
+                  <Select
+                    value={subEvent.competition_system || DEFAULT_COMPETITION_SYSTEM}
+                    onValueChange={(value) => updateCompetitionSystem(value as CompetitionSystem)}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue placeholder="Format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPETITION_SYSTEMS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {storedDraw && (
+                  <DrawReport
+                    title={subEvent.title}
+                    draw={storedDraw.draw}
+                    lockedAt={storedDraw.locked_at}
+                  />
+                )}
+                {drawLocked && (
+                  <CallRoomList title={subEvent.title} bouts={boutsToCall} />
+                )}
+                {!drawLocked && (
+                  <>
+                    <Button
+                      variant={storedDraw ? 'outline' : 'default'}
+                      onClick={handleMakeDraw}
+                      disabled={activeParticipants.length < 2}
+                    >
+                      {storedDraw ? 'Redraw' : 'Make Draw'}
+                    </Button>
+                    {storedDraw && (
+                      <Button onClick={handleLockDraw}>Lock Draw</Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </Card>
+          {isRoundRobin ? (
+            <div className="space-y-6">
+              <Card className="p-6">
+                <h2 className="text-xl font-bold mb-4">Standings</h2>
+                <RoundRobinStandings standings={standings} />
+              </Card>
+              <div className="grid md:grid-cols-2 gap-6">
+                {Array.from(new Set(roundRobinMatches.map(match => match.round))).map(round => (
+                  <Card key={round} className="p-6">
+                    <h3 className="text-lg font-bold mb-4">Round {round}</h3>
+                    <div className="space-y-4">
+                      {roundRobinMatches.filter(match => match.round === round).map(match => (
+                        <MatchCard
+                          key={match.id}
+                          match={match}
+                          disabled={!drawLocked}
+                          result={findResult(matchResults, match.id)}
+                          regulationTime={boutTime}
+                          correction={correction}
+                          protest={protestHandlers}
+                          blocked={blockedBouts.has(match.id)}
+                          onRecordResult={(winnerId, outcome) => handleKnockoutWinnerSelection(
+                            match.id,
+                            winnerId,
+                            match.player1!.id,
+                            match.player2!.id,
+                            outcome
+                          )}
+                        />
+                      ))}
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          ) : elimination ? (
+          <div className="space-y-6">
+            {pools.length > 0 && (
+              <Card className="p-6">
+                <h3 className="text-lg font-bold mb-4">Bracket</h3>
+                <BracketTree bracket={bracket} />
+              </Card>
+            )}
+            <div className="grid md:grid-cols-2 gap-6">
+              {POOL_NAMES.map(poolName => {
+                const label = poolLabel(competitionSystem, poolName);
+                const firstRound = (pools.find(pool => pool.name === poolName)?.groups || [])
+                  .filter(group => group.players.length === 2);
+                const knockoutMatches = (poolKnockoutMatches[poolName] || []).filter(match => !isBye(match));
+                return (
+                  <Card key={poolName} className="p-6">
+                    <h3 className="text-lg font-bold mb-4">{label}</h3>
+                    <div className="space-y-4">
+                      {firstRound.map((group, index) => {
+                        const result = getMatchResult(poolName, group.name);
+                        return (
+                          <MatchCard
+                            key={group.name}
+                            match={{
+                              id: groupStageId(poolName, group.name),
+                              round: 0,
+                              player1: group.players[0],
+                              player2: group.players[1],
+                              jackets: BOUT_JACKETS,
+                              winner_id: result?.winner_id,
+                              stage: `Round 1 – Bout ${index + 1}`
+                            }}
+                            result={result}
+                            disabled={!drawLocked}
+                            regulationTime={boutTime}
+                            correction={correction}
+                            protest={protestHandlers}
+                            blocked={blockedBouts.has(groupStageId(poolName, group.name))}
+                            onRecordResult={(winnerId, outcome) => handleSaveWinner(poolName, group.name, group.players, winnerId, outcome)}
+                          />
+                        );
+                      })}
+                      {/* The group bouts are round 1, so knockout rounds are shown one later */}
+                      {knockoutMatches.map(match => (
+                        <MatchCard
+                          key={match.id}
+                          match={{ ...match, stage: match.stage.replace(/^Round (\d+) Match/, (_, round) => `Round ${Number(round) + 1} – Bout`) }}
+                          result={findResult(matchResults, match.id)}
+                          regulationTime={boutTime}
+                          correction={correction}
+                          protest={protestHandlers}
+                          blocked={blockedBouts.has(match.id)}
+                          onRecordResult={(winnerId, outcome) => handleKnockoutWinnerSelection(
+                            match.id,
+                            winnerId,
+                            match.player1!.id,
+                            match.player2!.id,
+                            outcome
+                          )}
+                        />
+                      ))}
+                      {firstRound.length === 0 && knockoutMatches.length === 0 && (
+                        <p className="text-gray-500">No bouts in the {label.toLowerCase()} yet</p>
+                      )}
+                    </div>
+
+                    {/* Single elimination: the loser of the half's final takes bronze */}
+                    {competitionSystem === 'single_elimination' && (
+                      <div className="mt-6 border-t pt-4">
+                        <h4 className="font-medium mb-3">Bronze</h4>
+                        {bracket.bronzeMedallists[poolName] ? (
+                          <div className="p-2 bg-orange-50 rounded flex justify-between items-center">
+                            <p className="text-sm font-medium text-orange-700">
+                              Bronze: {bracket.bronzeMedallists[poolName]!.name}
+                            </p>
+                            {!hasBronzeResult(bracket.bronzeMedallists[poolName]!.id) && (
+                              <Button size="sm" onClick={() => recordBronze(poolName, bracket.bronzeMedallists[poolName]!.id)}>
+                                Record Bronze
+                              </Button>
+                            )}
+                          </div>
+                        ) : (
+                          <p className="text-gray-500">
+                            {getPoolFinalWinner(poolName)
+                              ? `No athlete lost to the ${label.toLowerCase()} winner – no bronze awarded`
+                              : `Bronze is decided once the ${label.toLowerCase()} winner is known`}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+            {competitionSystem === 'double_elimination' && (
+              <Card className="p-6">
+                <h3 className="text-lg font-bold mb-4">Losers Bracket</h3>
+                <p className="mb-4 text-sm text-gray-600">
+                  Athletes drop in here after their first loss; a second loss eliminates them
+                </p>
+                {bracket.losersMatches.length > 0 ? (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {bracket.losersMatches.map(match => (
+                      <MatchCard
+                        key={match.id}
+                        match={match}
+                        result={findResult(matchResults, match.id)}
+                        regulationTime={boutTime}
+                        correction={correction}
+                        protest={protestHandlers}
+                        blocked={blockedBouts.has(match.id)}
+                        onRecordResult={(winnerId, outcome) => handleKnockoutWinnerSelection(
+                          match.id,
+                          winnerId,
+                          match.player1!.id,
+                          match.player2!.id,
+                          outcome
+                        )}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">The losers bracket starts once round 1 is complete</p>
+                )}
+                {bracket.losersBronze && (
+                  <div className="mt-4 p-2 bg-orange-50 rounded flex justify-between items-center">
+                    <p className="text-sm font-medium text-orange-700">
+                      Bronze: {bracket.losersBronze.name}
+                    </p>
+                    {!hasBronzeResult(bracket.losersBronze.id) && (
+                      <Button size="sm" onClick={() => recordBronze('Losers Bracket', bracket.losersBronze!.id)}>
+                        Record Bronze
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </Card>
+            )}
+          </div>
+          ) : (
           <div className="grid md:grid-cols-2 gap-6">
             {pools.map((pool) => (
               <Card key={pool.name} className="p-6">
                 <h2 className="text-xl font-bold mb-4">{pool.name}</h2>
                 <div className="space-y-4">
                   {pool.groups.map((group) => {
-                    const groupId = `${pool.name}-${group.name}`;
                     const matchResult = getMatchResult(pool.name, group.name);
 
                     return (
                       <div key={group.name} className="border rounded-lg p-4">
                         <h3 className="font-semibold mb-2">Group {group.name}</h3>
                         <div className="space-y-2">
-                          {group.players.map((player) => (
-                            <div key={player.id} className="bg-gray-50 p-2 rounded">
-                              <p className="font-medium">{player.name}</p>
-                              <p className="text-sm text-gray-600">{player.association}</p>
-                            </div>
-                          ))}
+                          {group.players.map((player, index) => {
+                            const penalties = matchResult?.score_breakdown
+                              ? penaltiesOf(matchResult.score_breakdown, index === 0 ? 'player1' : 'player2')
+                              : [];
+                            const jacket = jacketOf(index === 0 ? 'player1' : 'player2');
+                            return (
+                              <div
+                                key={player.id}
+                                className={`bg-gray-50 p-2 rounded ${group.players.length === 2 ? JACKET_BORDERS[jacket] : ''}`}
+                              >
+                                <div className="flex items-center justify-between gap-2">
+                                  <p className="font-medium">
+                                    {player.name}
+                                    {player.seed_number && (
+                                      <span className="ml-2 text-xs text-blue-600">Seed {player.seed_number}</span>
+                                    )}
+                                  </p>
+                                  {group.players.length === 2 && <JacketBadge jacket={jacket} />}
+                                </div>
+                                <p className="text-sm text-gray-600">{player.association}</p>
+                                {penalties.length > 0 && (
+                                  <p className="text-xs text-red-700">Penalties: {formatPenalties(penalties)}</p>
+                                )}
+                              </div>
+                            );
+                          })}
                           {group.players.length === 1 && (
-                            <p className="text-sm text-green-600">Auto-qualified (Bye)</p>
+                            <>
+                              <div className="p-2 rounded border border-dashed text-gray-500">
+                                <p className="font-medium">Bye</p>
+                              </div>
+                              <p className="text-sm text-green-600">
+                                {group.players[0].name} walks through to the knockout
+                              </p>
+                            </>
                           )}
                           {group.players.length === 2 && !matchResult && (
                             <div className="mt-2">
-                              <Select
-                                value={selectedWinners[groupId]}
-                                onValueChange={(value) => handleWinnerSelection(groupId, value)}
-                              >
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select winner" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {group.players.map((player) => (
-                                    <SelectItem key={player.id} value={player.id}>
-                                      {player.name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <Button
-                                onClick={() => handleSaveWinner(pool.name, group.name, group.players)}
-                                className="w-full mt-2"
-                                disabled={!selectedWinners[groupId]}
-                              >
-                                Save Winner
-                              </Button>
+                              <BoutScoringPanel
+                                title={`${pool.name} – Group ${group.name}`}
+                                player1={group.players[0]}
+                                player2={group.players[1]}
+                                onSave={(winnerId, outcome) => handleSaveWinner(pool.name, group.name, group.players, winnerId, outcome)}
+                                regulationTime={boutTime}
+                                disabled={!drawLocked}
+                              />
                             </div>
                           )}
                           {matchResult && (
                             <div className="mt-2 p-2 bg-green-50 rounded">
                               <p className="text-sm font-medium text-green-600">
                                 Winner: {participants.find(p => p.id === matchResult.winner_id)?.name}
+                                {matchResult.win_type && ` (${WIN_TYPE_LABELS[matchResult.win_type]})`}
                               </p>
+                              {matchResult.score_breakdown && (
+                                <p className="text-xs text-gray-600">{formatScoreLine(matchResult.score_breakdown)}</p>
+                              )}
+                              {group.players.length === 2 && (() => {
+                                const bout = {
+                                  id: matchResult.match_stage,
+                                  round: 0,
+                                  player1: group.players[0],
+                                  player2: group.players[1],
+                                  jackets: BOUT_JACKETS,
+                                  stage: `${pool.name} – Group ${group.name}`
+                                };
+                                return (
+                                  <div className="mt-2 flex flex-wrap gap-2">
+                                    <CorrectResultDialog
+                                      bout={bout}
+                                      result={matchResult}
+                                      correction={correction}
+                                      regulationTime={boutTime}
+                                    />
+                                    <ProtestDialog
+                                      bout={bout}
+                                      result={matchResult}
+                                      protest={protestHandlers}
+                                      correction={correction}
+                                      regulationTime={boutTime}
+                                    />
+                                  </div>
+                                );
+                              })()}
                             </div>
                           )}
                         </div>
@@ -1223,147 +1884,90 @@ export function SubEventClient({ eventId, subEventId }: Props) {
               </Card>
             ))}
           </div>
-          {participants.length > 0 && (
-            <div className="mt-6 space-x-2">
-              <Button onClick={() => generatePools(participants)}>
-                Regenerate Pools
-              </Button>
-              <Button variant="outline" onClick={() => generateKnockoutMatches()}>
-                Regenerate Knockout Matches
-              </Button>
-            </div>
           )}
         </TabsContent>
         
         {/* Knockout Stage */}
         <TabsContent value="knockout-stage">
+          {pools.length > 0 && (
+            <Card className="p-6 mb-6">
+              <h3 className="text-lg font-bold mb-4">Bracket</h3>
+              <BracketTree bracket={bracket} />
+            </Card>
+          )}
           <div className="grid md:grid-cols-2 gap-6">
-            {['Pool A', 'Pool B'].map(poolName => {
+            {POOL_NAMES.map(poolName => {
               const knockoutMatches = poolKnockoutMatches[poolName] || [];
               return (
                 <Card key={poolName} className="p-6">
                   <h3 className="text-lg font-bold mb-4">{poolName} Knockout</h3>
                   <div className="mb-4 text-sm text-gray-600">
                     <p>Pool Winners: {getPoolWinners(poolName).map(p => p.name).join(', ')}</p>
-                    <p>Knockout Matches: {knockoutMatches.length}</p>
+                    <p>Knockout Matches: {knockoutMatches.filter(match => !isBye(match)).length}</p>
                   </div>
                   {knockoutMatches.length > 0 ? (
                     <div className="space-y-4">
-                      {knockoutMatches.map((match) => {
-                        const matchResult = matchResults.find(r => r.match_stage === match.id);
-                        return (
-                          <div key={match.id} className="border rounded-lg p-4">
-                            <h4 className="font-medium mb-2">{match.stage}</h4>
-                            <div className="grid grid-cols-1 gap-2">
-                              {match.player1 && (
-                                <div className={`p-2 rounded ${matchResult?.winner_id === match.player1.id ? 'bg-green-50' : 'bg-gray-50'}`}>
-                                  <p className="font-medium">{match.player1.name}</p>
-                                  <p className="text-sm text-gray-600">{match.player1.association}</p>
-                                </div>
-                              )}
-                              {match.player2 && (
-                                <div className={`p-2 rounded ${matchResult?.winner_id === match.player2.id ? 'bg-green-50' : 'bg-gray-50'}`}>
-                                  <p className="font-medium">{match.player2.name}</p>
-                                  <p className="text-sm text-gray-600">{match.player2.association}</p>
-                                </div>
-                              )}
-                            </div>
-                            
-                            {!matchResult && match.player1 && match.player2 && (
-                              <div className="mt-3">
-                                <Select
-                                  value={match.winner_id}
-                                  onValueChange={(value) => {
-                                    if (match.player1 && match.player2) {
-                                      handleKnockoutWinnerSelection(
-                                        match.id, 
-                                        value, 
-                                        match.player1.id, 
-                                        match.player2.id
-                                      );
-                                    }
-                                  }}
-                                >
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select winner" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    {match.player1 && (
-                                      <SelectItem value={match.player1.id}>{match.player1.name}</SelectItem>
-                                    )}
-                                    {match.player2 && (
-                                      <SelectItem value={match.player2.id}>{match.player2.name}</SelectItem>
-                                    )}
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                            )}
-                            
-                            {matchResult && (
-                              <div className="mt-2 p-2 bg-green-50 rounded">
-                                <p className="text-sm font-medium text-green-600">
-                                  Winner: {participants.find(p => p.id === matchResult.winner_id)?.name}
-                                </p>
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
+                      {knockoutMatches.map((match) => (
+                        <MatchCard
+                          key={match.id}
+                          match={match}
+                          result={findResult(matchResults, match.id)}
+                          regulationTime={boutTime}
+                          correction={correction}
+                          protest={protestHandlers}
+                          blocked={blockedBouts.has(match.id)}
+                          onRecordResult={(winnerId, outcome) => handleKnockoutWinnerSelection(
+                            match.id,
+                            winnerId,
+                            match.player1!.id,
+                            match.player2!.id,
+                            outcome
+                          )}
+                        />
+                      ))}
                     </div>
                   ) : (
                     <p className="text-gray-500">Complete group matches to see knockout stage</p>
                   )}
                   
-                  {/* Third Place Selection */}
+                  {/* Repechage and bronze medal */}
                   <div className="mt-6 border-t pt-4">
-                    <h4 className="font-medium mb-3">Select 3rd Place Winner</h4>
-                    {getPoolWinners(poolName).length > 0 ? (
-                      <>
-                        {!getThirdPlaceResult(poolName) ? (
-                          <>
-                            <Select
-                              value={thirdPlaceSelections[poolName]}
-                              onValueChange={(value) => handleThirdPlaceSelection(poolName, value)}
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select 3rd place" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {getPoolWinners(poolName)
-                                  .filter(player => {
-                                    // Filter out the pool winner
-                                    const poolWinner = getPoolFinalWinner(poolName);
-                                    
-                                    // For a knockout tournament, we should exclude the winner
-                                    // but include everyone else who participated in the knockout
-                                    return poolWinner ? player.id !== poolWinner.id : true;
-                                  })
-                                  .map(player => (
-                                    <SelectItem key={player.id} value={player.id}>
-                                      {player.name}
-                                    </SelectItem>
-                                  ))}
-                              </SelectContent>
-                            </Select>
-                            {thirdPlaceSelections[poolName] && (
-                              <Button
-                                onClick={() => saveThirdPlace(poolName, thirdPlaceSelections[poolName])}
-                                className="w-full mt-2"
-                              >
-                                Save 3rd Place
+                    <h4 className="font-medium mb-3">
+                      Repechage & Bronze
+                    </h4>
+                    {getPoolFinalWinner(poolName) ? (
+                      <div className="space-y-4">
+                        {(bracket.poolRepechageMatches[poolName] || []).map(match => (
+                          <MatchCard
+                            key={match.id}
+                            match={match}
+                            result={findResult(matchResults, match.id)}
+                            regulationTime={boutTime}
+                            correction={correction}
+                            protest={protestHandlers}
+                            blocked={blockedBouts.has(match.id)}
+                            onRecordResult={(winnerId, outcome) => handleRepechageWinnerSelection(poolName, match, winnerId, outcome)}
+                          />
+                        ))}
+                        {bracket.bronzeMedallists[poolName] ? (
+                          <div className="p-2 bg-orange-50 rounded flex justify-between items-center">
+                            <p className="text-sm font-medium text-orange-700">
+                              Bronze: {bracket.bronzeMedallists[poolName]!.name}
+                            </p>
+                            {!hasBronzeResult(bracket.bronzeMedallists[poolName]!.id) && (
+                              <Button size="sm" onClick={() => recordBronze(poolName, bracket.bronzeMedallists[poolName]!.id)}>
+                                Record Bronze
                               </Button>
                             )}
-                          </>
-                        ) : (
-                          <div className="p-2 bg-green-50 rounded">
-                            <p className="text-sm font-medium text-green-600">
-                              3rd Place: {participants.find(p => p.id === getThirdPlaceResult(poolName)?.winner_id)?.name}
-                            </p>
                           </div>
+                        ) : (bracket.poolRepechageMatches[poolName] || []).length === 0 && (
+                          <p className="text-gray-500">No athletes lost to the {poolName} finalist – no bronze awarded</p>
                         )}
-                      </>
+                      </div>
                     ) : (
-                      <p className="text-gray-500">Complete group matches first</p>
+                      <p className="text-gray-500">
+                        Repechage opens once the {poolName} winner is known
+                      </p>
                     )}
                   </div>
                 </Card>
@@ -1374,11 +1978,38 @@ export function SubEventClient({ eventId, subEventId }: Props) {
         
         {/* Finals */}
         <TabsContent value="finals">
+          {isRoundRobin ? (
+          <Card className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold">Final Standings</h3>
+              {roundRobinComplete && !standingsRecorded && (
+                <Button onClick={recordRoundRobinStandings}>Record Final Standings</Button>
+              )}
+            </div>
+            {roundRobinComplete ? (
+              <div className="space-y-4">
+                <RoundRobinStandings standings={standings} />
+                {standingsRecorded && (
+                  <p className="text-sm text-green-600">Final standings recorded in the summary and clubbed results</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-gray-500">
+                Complete all round-robin bouts to see the final standings ({roundRobinMatches.filter(match => match.winner_id).length}/{roundRobinMatches.length} decided)
+              </p>
+            )}
+          </Card>
+          ) : (
           <Card className="p-6">
-            <h3 className="text-lg font-bold mb-4">Championship Match</h3>
+            <h3 className="text-lg font-bold mb-4">
+              {competitionSystem === 'double_elimination' ? 'Winners Bracket Final' : 'Championship Match'}
+            </h3>
             <div className="mb-4 text-sm text-gray-600">
-              <p>Pool A Final Winner: {getPoolFinalWinner('Pool A')?.name || 'Not determined'}</p>
-              <p>Pool B Final Winner: {getPoolFinalWinner('Pool B')?.name || 'Not determined'}</p>
+              {POOL_NAMES.map(poolName => (
+                <p key={poolName}>
+                  {poolLabel(competitionSystem, poolName)} Final Winner: {getPoolFinalWinner(poolName)?.name || 'Not determined'}
+                </p>
+              ))}
               <p>Final Match: {finalMatch ? 'Available' : 'Not available'}</p>
             </div>
             {finalMatch && finalMatch.player1 && finalMatch.player2 ? (
@@ -1402,17 +2033,17 @@ export function SubEventClient({ eventId, subEventId }: Props) {
                   if (!hasWinner) {
                     return (
                       <div className="mt-4">
-                        <Select
-                          onValueChange={(value) => handleFinalWinnerSelection(value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select champion" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value={finalMatch.player1.id}>{finalMatch.player1.name}</SelectItem>
-                            <SelectItem value={finalMatch.player2.id}>{finalMatch.player2.name}</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <BoutScoringPanel
+                          title={competitionSystem === 'double_elimination' ? 'Winners Bracket Final' : 'Championship Final'}
+                          player1={finalMatch.player1}
+                          player2={finalMatch.player2}
+                          onSave={handleFinalWinnerSelection}
+                          regulationTime={boutTime}
+                          disabled={blockedBouts.has(finalMatch.id)}
+                        />
+                        {blockedBouts.has(finalMatch.id) && (
+                          <p className="mt-1 text-xs text-red-700">On hold – a protest on an earlier bout is open</p>
+                        )}
                       </div>
                     );
                   } else {
@@ -1420,8 +2051,31 @@ export function SubEventClient({ eventId, subEventId }: Props) {
                     return (
                       <div className="mt-4 p-3 bg-yellow-50 rounded border border-yellow-200">
                         <p className="text-lg font-bold text-yellow-700">
-                          Champion: {participants.find(p => p.id === winnerId)?.name}
+                          {competitionSystem === 'double_elimination' ? 'Winners bracket champion' : 'Champion'}: {participants.find(p => p.id === winnerId)?.name}
                         </p>
+                        {finalResult?.win_type && (
+                          <p className="text-sm text-yellow-700">{WIN_TYPE_LABELS[finalResult.win_type as WinType]}</p>
+                        )}
+                        {finalResult?.score_breakdown && (
+                          <p className="text-sm text-yellow-700">{formatScoreLine(finalResult.score_breakdown)}</p>
+                        )}
+                        {finalResult && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            <CorrectResultDialog
+                              bout={finalMatch}
+                              result={finalResult}
+                              correction={correction}
+                              regulationTime={boutTime}
+                            />
+                            <ProtestDialog
+                              bout={finalMatch}
+                              result={finalResult}
+                              protest={protestHandlers}
+                              correction={correction}
+                              regulationTime={boutTime}
+                            />
+                          </div>
+                        )}
                       </div>
                     );
                   }
@@ -1431,6 +2085,39 @@ export function SubEventClient({ eventId, subEventId }: Props) {
               <p className="text-gray-500">Complete knockout matches to see finals</p>
             )}
           </Card>
+          )}
+
+          {competitionSystem === 'double_elimination' && (
+            <Card className="p-6 mt-6">
+              <h3 className="text-lg font-bold mb-4">Grand Final</h3>
+              <p className="mb-4 text-sm text-gray-600">
+                Winners bracket champion against the losers bracket winner. If the losers bracket winner wins, the bout is replayed.
+              </p>
+              {bracket.grandFinalMatches.length > 0 ? (
+                <div className="space-y-4">
+                  {bracket.grandFinalMatches.map(match => (
+                    <MatchCard
+                      key={match.id}
+                      match={match}
+                      result={findResult(matchResults, match.id)}
+                      regulationTime={boutTime}
+                      correction={correction}
+                      protest={protestHandlers}
+                      blocked={blockedBouts.has(match.id)}
+                      onRecordResult={(winnerId, outcome) => handleGrandFinalWinnerSelection(match, winnerId, outcome)}
+                    />
+                  ))}
+                  {bracket.champion && (
+                    <div className="p-3 bg-yellow-50 rounded border border-yellow-200">
+                      <p className="text-lg font-bold text-yellow-700">Champion: {bracket.champion.name}</p>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-500">Complete the winners bracket final and the losers bracket to see the grand final</p>
+              )}
+            </Card>
+          )}
         </TabsContent>
         
         {/* Summary Results */}
@@ -1447,6 +2134,7 @@ export function SubEventClient({ eventId, subEventId }: Props) {
                       <th className="border p-2 text-left">Association</th>
                       <th className="border p-2 text-left">Result Type</th>
                       <th className="border p-2 text-left">Position</th>
+                      <th className="border p-2 text-left">Win Type</th>
                       <th className="border p-2 text-left">Actions</th>
                     </tr>
                   </thead>
@@ -1459,6 +2147,7 @@ export function SubEventClient({ eventId, subEventId }: Props) {
                           <td className="border p-2">{result.player?.association || 'Unknown'}</td>
                           <td className="border p-2 capitalize">{result.result_type}</td>
                           <td className="border p-2 capitalize">{result.position.replace('_', ' ')}</td>
+                          <td className="border p-2">{summaryWinType(result)}</td>
                           <td className="border p-2">
                             <Button 
                               variant="outline" 
@@ -1481,7 +2170,7 @@ export function SubEventClient({ eventId, subEventId }: Props) {
                       ))
                     ) : (
                       <tr>
-                        <td colSpan={6} className="border p-4 text-center text-gray-500">
+                        <td colSpan={7} className="border p-4 text-center text-gray-500">
                           No summary results available
                         </td>
                       </tr>
@@ -1578,6 +2267,48 @@ export function SubEventClient({ eventId, subEventId }: Props) {
               </div>
             </div>
           </Card>
+
+          {corrections.length > 0 && (
+            <Card className="p-6 mt-6">
+              <h3 className="text-xl font-bold mb-4">Result Corrections</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border p-2 text-left">When</th>
+                      <th className="border p-2 text-left">Bout</th>
+                      <th className="border p-2 text-left">Recorded Winner</th>
+                      <th className="border p-2 text-left">Corrected Winner</th>
+                      <th className="border p-2 text-left">Results Removed</th>
+                      <th className="border p-2 text-left">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {corrections.map(entry => (
+                      <tr key={entry.id} className="hover:bg-gray-50">
+                        <td className="border p-2">{new Date(entry.created_at).toLocaleString()}</td>
+                        <td className="border p-2">{entry.match_stage}</td>
+                        <td className="border p-2">
+                          {participantName(entry.original_result.winner_id)}
+                          {entry.original_result.win_type && ` (${WIN_TYPE_LABELS[entry.original_result.win_type]})`}
+                        </td>
+                        <td className="border p-2">
+                          {participantName(entry.corrected_result.winner_id)}
+                          {entry.corrected_result.win_type && ` (${WIN_TYPE_LABELS[entry.corrected_result.win_type]})`}
+                        </td>
+                        <td className="border p-2">
+                          {entry.invalidated_results.length > 0
+                            ? entry.invalidated_results.map(result => result.match_stage).join(', ')
+                            : '–'}
+                        </td>
+                        <td className="border p-2">{entry.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
         </TabsContent>
         
         {/* Clubbed Results */}
@@ -0,0 +1,319 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchWeighIns,
+  fetchWeighInSession,
+  recordWeighIn,
+  saveWeighInSession,
+  type WeighIn,
+  type WeighInSession
+} from '@/lib/weigh-ins';
+import {
+  canWeighIn,
+  isWeighInOpen,
+  WEIGH_IN_STATUS_LABELS,
+  weighInStatus,
+  type WeighInStatus
+} from '@/lib/tournament';
+
+interface Props {
+  eventId: string;
+}
+
+interface SubEvent {
+  id: string;
+  title: string;
+  min_weight: number;
+  max_weight: number;
+}
+
+interface Athlete {
+  id: string;
+  name: string;
+  association: string;
+  weight: number;
+  sub_event_id: string;
+}
+
+const STATUS_COLOURS: Record<WeighInStatus, string> = {
+  pending: 'text-gray-600',
+  passed: 'text-green-700',
+  recheck: 'text-yellow-700',
+  failed: 'text-red-700'
+};
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// Weight inputs are kept per entry: an athlete entered in two sub-events is
+// weighed against each of them
+function entryKey(athlete: Athlete) {
+  return `${athlete.sub_event_id}:${athlete.id}`;
+}
+
+// Official weigh-in of an event. The session sets the weigh-in window and the
+// tolerance; each athlete is weighed against the limits of their sub-event and
+// flagged when they fail, with a second check allowed while the window is open.
+export function WeighInClient({ eventId }: Props) {
+  const [eventTitle, setEventTitle] = useState('');
+  const [session, setSession] = useState<WeighInSession | null>(null);
+  const [sessionForm, setSessionForm] = useState({ opens_at: '', closes_at: '', tolerance_kg: '0' });
+  const [subEvents, setSubEvents] = useState<SubEvent[]>([]);
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [weighIns, setWeighIns] = useState<WeighIn[]>([]);
+  // Official weight being typed in, by entryKey
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadWeighIn();
+  }, [eventId]);
+
+  async function loadWeighIn() {
+    setLoading(true);
+    try {
+      const { data: event, error: eventError } = await supabase
+        .from('events')
+        .select('title')
+        .eq('id', eventId)
+        .single();
+      if (eventError) throw eventError;
+      setEventTitle(event?.title || '');
+
+      const { data: subEventData, error: subEventError } = await supabase
+        .from('sub_events')
+        .select('id, title, min_weight, max_weight')
+        .eq('event_id', eventId)
+        .order('min_weight');
+      if (subEventError) throw subEventError;
+      setSubEvents(subEventData || []);
+
+      const { data: participantData, error: participantError } = await supabase
+        .from('sub_event_participants')
+        .select(`
+          sub_event_id,
+          player:players(
+            id,
+            first_name,
+            last_name,
+            registered_association,
+            weight
+          )
+        `)
+        .in('sub_event_id', (subEventData || []).map(subEvent => subEvent.id));
+      if (participantError) throw participantError;
+      setAthletes((participantData || []).map((p: any) => ({
+        id: p.player?.id || '',
+        name: `${p.player?.first_name || ''} ${p.player?.last_name || ''}`.trim(),
+        association: p.player?.registered_association || 'Unknown',
+        weight: p.player?.weight || 0,
+        sub_event_id: p.sub_event_id
+      })));
+
+      const stored = await fetchWeighInSession(eventId);
+      setSession(stored);
+      if (stored) {
+        setSessionForm({
+          opens_at: toLocalInput(stored.opens_at),
+          closes_at: toLocalInput(stored.closes_at),
+          tolerance_kg: String(stored.tolerance_kg)
+        });
+        setWeighIns(await fetchWeighIns(stored.id));
+      }
+    } catch (error) {
+      console.error('Error loading weigh-in:', error);
+      alert('Failed to load the weigh-in');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSaveSession() {
+    if (!sessionForm.opens_at || !sessionForm.closes_at) {
+      alert('Please set when the weigh-in opens and closes');
+      return;
+    }
+    if (new Date(sessionForm.closes_at) <= new Date(sessionForm.opens_at)) {
+      alert('The weigh-in must close after it opens');
+      return;
+    }
+
+    try {
+      setSession(await saveWeighInSession(eventId, {
+        opens_at: new Date(sessionForm.opens_at).toISOString(),
+        closes_at: new Date(sessionForm.closes_at).toISOString(),
+        tolerance_kg: parseFloat(sessionForm.tolerance_kg) || 0
+      }));
+    } catch (error) {
+      console.error('Error saving weigh-in session:', error);
+      alert('Failed to save the weigh-in session');
+    }
+  }
+
+  function attemptsOf(athlete: Athlete) {
+    return weighIns.filter(weighIn => weighIn.player_id === athlete.id && weighIn.sub_event_id === athlete.sub_event_id);
+  }
+
+  async function handleRecord(athlete: Athlete, subEvent: SubEvent) {
+    const weight = parseFloat(weights[entryKey(athlete)]);
+    if (!session || isNaN(weight) || weight <= 0) {
+      alert('Please enter the official weight');
+      return;
+    }
+
+    try {
+      const recorded = await recordWeighIn(session, attemptsOf(athlete), athlete.id, subEvent.id, subEvent, weight);
+      setWeighIns(prev => [...prev, recorded]);
+      setWeights(prev => ({ ...prev, [entryKey(athlete)]: '' }));
+    } catch (error) {
+      console.error('Error recording weigh-in:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record weigh-in');
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center p-8">Loading...</div>;
+  }
+
+  const flagged = session
+    ? athletes.filter(athlete => weighInStatus(attemptsOf(athlete), session) === 'failed')
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold">Weigh-in – {eventTitle}</h2>
+        <Link href={`/events/${eventId}`}>
+          <Button variant="outline">Back to Event</Button>
+        </Link>
+      </div>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-medium mb-4">Weigh-in Session</h3>
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="opens_at">Opens</Label>
+            <Input
+              id="opens_at"
+              type="datetime-local"
+              value={sessionForm.opens_at}
+              onChange={e => setSessionForm(prev => ({ ...prev, opens_at: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closes_at">Closes</Label>
+            <Input
+              id="closes_at"
+              type="datetime-local"
+              value={sessionForm.closes_at}
+              onChange={e => setSessionForm(prev => ({ ...prev, closes_at: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tolerance_kg">Tolerance (kg)</Label>
+            <Input
+              id="tolerance_kg"
+              type="number"
+              step="0.1"
+              min="0"
+              value={sessionForm.tolerance_kg}
+              onChange={e => setSessionForm(prev => ({ ...prev, tolerance_kg: e.target.value }))}
+            />
+          </div>
+          <Button onClick={handleSaveSession}>{session ? 'Update Session' : 'Open Session'}</Button>
+        </div>
+        {session && (
+          <p className={`mt-3 text-sm ${isWeighInOpen(session) ? 'text-green-700' : 'text-gray-600'}`}>
+            {isWeighInOpen(session) ? 'The weigh-in is open' : 'The weigh-in is not open'} –{' '}
+            {new Date(session.opens_at).toLocaleString()} to {new Date(session.closes_at).toLocaleString()},
+            tolerance {session.tolerance_kg} kg
+          </p>
+        )}
+      </Card>
+
+      {flagged.length > 0 && (
+        <Card className="p-4 border-red-300 bg-red-50">
+          <p className="font-medium text-red-700">Failed weigh-in ({flagged.length})</p>
+          <p className="text-sm text-red-700">{flagged.map(athlete => athlete.name).join(', ')}</p>
+        </Card>
+      )}
+
+      {!session ? (
+        <p className="text-gray-500">Open a weigh-in session to record official weights</p>
+      ) : subEvents.map(subEvent => {
+        const entrants = athletes.filter(athlete => athlete.sub_event_id === subEvent.id);
+        return (
+          <Card key={subEvent.id} className="p-6">
+            <h3 className="text-lg font-medium mb-4">
+              {subEvent.title} ({subEvent.min_weight} – {subEvent.max_weight} kg)
+            </h3>
+            {entrants.length === 0 ? (
+              <p className="text-gray-500">No participants</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border p-2 text-left">Athlete</th>
+                      <th className="border p-2 text-left">Association</th>
+                      <th className="border p-2 text-left">Registered</th>
+                      <th className="border p-2 text-left">Checks</th>
+                      <th className="border p-2 text-left">Status</th>
+                      <th className="border p-2 text-left">Official Weight</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entrants.map(athlete => {
+                      const attempts = attemptsOf(athlete);
+                      const status = weighInStatus(attempts, session);
+                      return (
+                        <tr key={athlete.id} className={status === 'failed' ? 'bg-red-50' : ''}>
+                          <td className="border p-2">{athlete.name}</td>
+                          <td className="border p-2">{athlete.association}</td>
+                          <td className="border p-2">{athlete.weight} kg</td>
+                          <td className="border p-2">
+                            {attempts.length > 0 ? attempts.map(attempt => (
+                              <p key={attempt.id} className={attempt.passed ? 'text-green-700' : 'text-red-700'}>
+                                {attempt.weight} kg at {new Date(attempt.weighed_at).toLocaleTimeString()} – {attempt.passed ? 'made weight' : 'out of category'}
+                              </p>
+                            )) : '–'}
+                          </td>
+                          <td className={`border p-2 font-medium ${STATUS_COLOURS[status]}`}>{WEIGH_IN_STATUS_LABELS[status]}</td>
+                          <td className="border p-2">
+                            {canWeighIn(attempts, session) ? (
+                              <div className="flex gap-2">
+                                <Input
+                                  type="number"
+                                  step="0.1"
+                                  min="0"
+                                  className="w-24"
+                                  value={weights[entryKey(athlete)] || ''}
+                                  onChange={e => setWeights(prev => ({ ...prev, [entryKey(athlete)]: e.target.value }))}
+                                />
+                                <Button size="sm" onClick={() => handleRecord(athlete, subEvent)}>Record</Button>
+                              </div>
+                            ) : '–'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
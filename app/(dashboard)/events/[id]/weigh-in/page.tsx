@@ -0,0 +1,5 @@
+import { WeighInClient } from './client';
+
+export default function WeighInPage({ params }: any) {
+  return <WeighInClient eventId={params.id} />;
+}
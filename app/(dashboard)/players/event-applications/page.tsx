@@ -13,6 +13,8 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { supabase } from "@/lib/supabase";
+import { isInAgeGroup, isWithinCategory } from "@/lib/tournament";
+import { fetchOfficialWeights } from "@/lib/weigh-ins";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
@@ -288,7 +290,7 @@ export default function EventApplicationsPage() {
           // c. Fetch all sub_events for the event
           const { data: subEvents, error: subEventError } = await supabase
             .from("sub_events")
-            .select("id, min_weight, max_weight,dob_range")
+            .select("id, min_weight, max_weight, age_group, dob_range, event_date, event_end_date")
             .eq("event_id", applicationData.event_id);
 
           if (subEventError || !subEvents || subEvents.length === 0) {
@@ -297,39 +299,21 @@ export default function EventApplicationsPage() {
             return;
           }
 
-          const parseDateRange = (rangeStr: string): [Date, Date] | null => {
-            if (!rangeStr || typeof rangeStr !== "string") return null;
+          // d. Filter sub_event by age group and weight, using the official
+          // weigh-in (with its tolerance) over the registered weight
+          const { weights, tolerance } = await fetchOfficialWeights(
+            applicationData.event_id
+          );
+          const officialWeight = weights[playerData.id];
 
-            // Remove brackets and split
-            const cleaned = rangeStr.replace(/[\[\]\(\)]/g, "");
-            const [startStr, endStr] = cleaned.split(",");
-
-            if (!startStr || !endStr) return null;
-
-            return [new Date(startStr), new Date(endStr)];
-          };
-
-          // d. Filter sub_event by custom weight logic
           const matchingSubEvent = subEvents.find((se) => {
-            const weight = playerData.weight;
-            const birthDate = new Date(playerData.birth_date);
-
-            const minWeight = se.min_weight ?? 0;
-            const maxWeight = se.max_weight ?? 999;
-
-            const weightMatches =
-              (minWeight === 0 && weight <= maxWeight) ||
-              (weight > minWeight && weight <= maxWeight);
-
-            let dobMatches = false;
-            const parsedRange = parseDateRange(se.dob_range);
-
-            if (parsedRange) {
-              const [startDate, endDate] = parsedRange;
-              dobMatches = birthDate >= startDate && birthDate <= endDate;
-            }
+            const weightMatches = isWithinCategory(
+              officialWeight ?? playerData.weight,
+              se,
+              officialWeight === undefined ? 0 : tolerance
+            );
 
-            return weightMatches && dobMatches;
+            return weightMatches && isInAgeGroup(playerData.birth_date, se);
           });
 
           if (!matchingSubEvent) {
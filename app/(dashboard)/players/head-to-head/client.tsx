@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/lib/supabase';
+import { fetchHeadToHead, type HeadToHeadBout, type HeadToHeadRecord } from '@/lib/head-to-head';
+import { describeStage, formatScore, WIN_TYPE_LABELS } from '@/lib/tournament';
+
+interface Player {
+  id: string;
+  first_name: string;
+  last_name: string;
+  registered_association: string;
+}
+
+interface Props {
+  player1: string;
+  player2: string;
+}
+
+function fullName(player?: Player) {
+  return player ? `${player.first_name} ${player.last_name}`.trim() : 'Unknown';
+}
+
+// Score line from the first athlete's side
+function scoreFor(bout: HeadToHeadBout, playerId: string) {
+  if (!bout.score_breakdown) return '–';
+  const [own, other] = bout.player1_id === playerId ? ['player1', 'player2'] as const : ['player2', 'player1'] as const;
+  return `${formatScore(bout.score_breakdown[own])} : ${formatScore(bout.score_breakdown[other])}`;
+}
+
+export function HeadToHeadClient({ player1, player2 }: Props) {
+  const router = useRouter();
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [selected, setSelected] = useState({ player1, player2 });
+  const [record, setRecord] = useState<HeadToHeadRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchPlayers();
+  }, []);
+
+  useEffect(() => {
+    if (!selected.player1 || !selected.player2 || selected.player1 === selected.player2) {
+      setRecord(null);
+      return;
+    }
+
+    setLoading(true);
+    fetchHeadToHead(selected.player1, selected.player2)
+      .then(setRecord)
+      .catch(error => {
+        console.error('Error fetching head-to-head:', error);
+        alert('Failed to load the head-to-head record');
+      })
+      .finally(() => setLoading(false));
+  }, [selected.player1, selected.player2]);
+
+  async function fetchPlayers() {
+    const { data, error } = await supabase
+      .from('players')
+      .select('id, first_name, last_name, registered_association')
+      .order('first_name');
+
+    if (error) {
+      console.error('Error fetching players:', error);
+      return;
+    }
+
+    setPlayers(data || []);
+  }
+
+  function handleSelect(side: 'player1' | 'player2', playerId: string) {
+    const next = { ...selected, [side]: playerId };
+    setSelected(next);
+    router.replace(`/players/head-to-head?player1=${next.player1}&player2=${next.player2}`);
+  }
+
+  const athlete1 = players.find(player => player.id === selected.player1);
+  const athlete2 = players.find(player => player.id === selected.player2);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Head to Head</h1>
+
+      <Card className="p-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          {(['player1', 'player2'] as const).map((side, index) => (
+            <div key={side} className="space-y-1">
+              <Label>Athlete {index + 1}</Label>
+              <Select value={selected[side]} onValueChange={value => handleSelect(side, value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select athlete" />
+                </SelectTrigger>
+                <SelectContent>
+                  {players.map(player => (
+                    <SelectItem key={player.id} value={player.id}>
+                      {fullName(player)} ({player.registered_association})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {selected.player1 && selected.player1 === selected.player2 && (
+        <p className="text-gray-500">Choose two different athletes</p>
+      )}
+
+      {loading ? (
+        <p className="text-gray-600">Loading bouts...</p>
+      ) : record && (
+        <Card className="p-6">
+          <div className="flex justify-center items-center gap-6 mb-6 text-center">
+            <div>
+              <p className="font-semibold">{fullName(athlete1)}</p>
+              <p className="text-sm text-gray-600">{athlete1?.registered_association}</p>
+            </div>
+            <p className="text-3xl font-bold tabular-nums">
+              {record.wins[selected.player1] || 0} – {record.wins[selected.player2] || 0}
+            </p>
+            <div>
+              <p className="font-semibold">{fullName(athlete2)}</p>
+              <p className="text-sm text-gray-600">{athlete2?.registered_association}</p>
+            </div>
+          </div>
+
+          {record.bouts.length === 0 ? (
+            <p className="text-center text-gray-500">These athletes have not fought each other</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="border p-2 text-left">Date</th>
+                    <th className="border p-2 text-left">Event</th>
+                    <th className="border p-2 text-left">Stage</th>
+                    <th className="border p-2 text-left">Winner</th>
+                    <th className="border p-2 text-left">Win Type</th>
+                    <th className="border p-2 text-left">Score ({fullName(athlete1)} first)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {record.bouts.map(bout => (
+                    <tr key={bout.id} className="hover:bg-gray-50">
+                      <td className="border p-2">{bout.created_at ? new Date(bout.created_at).toLocaleDateString() : '–'}</td>
+                      <td className="border p-2">
+                        {bout.event_id ? (
+                          <Link
+                            href={bout.sub_event_id ? `/events/${bout.event_id}/sub-events/${bout.sub_event_id}` : `/events/${bout.event_id}`}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {bout.event_title}{bout.sub_event_title && ` – ${bout.sub_event_title}`}
+                          </Link>
+                        ) : bout.event_title}
+                      </td>
+                      <td className="border p-2">{describeStage(bout.match_stage)}</td>
+                      <td className="border p-2">{bout.winner_id === athlete1?.id ? fullName(athlete1) : fullName(athlete2)}</td>
+                      <td className="border p-2">{bout.win_type ? WIN_TYPE_LABELS[bout.win_type] : '–'}</td>
+                      <td className="border p-2">{scoreFor(bout, selected.player1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
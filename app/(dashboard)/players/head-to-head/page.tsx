@@ -0,0 +1,6 @@
+import { HeadToHeadClient } from './client';
+
+// Head-to-head record of two athletes, e.g. /players/head-to-head?player1=…&player2=…
+export default function HeadToHeadPage({ searchParams }: any) {
+  return <HeadToHeadClient player1={searchParams?.player1 || ''} player2={searchParams?.player2 || ''} />;
+}
@@ -270,6 +270,12 @@ export default function PlayersPage() {
                 Event Applications
               </Button>
             </Link>
+            <Link href="/players/head-to-head">
+              <Button variant="secondary" className="font-medium">
+                <Users className="mr-2 h-4 w-4" />
+                Head to Head
+              </Button>
+            </Link>
           </div>
         </div>
         
@@ -0,0 +1,65 @@
+import { listenToMat, publishBout } from '@/lib/scoreboard-relay';
+
+// Local scoreboard feed: score sheets POST the bout, scoreboards follow it as
+// server-sent events
+export const dynamic = 'force-dynamic';
+
+interface Context {
+  params: Promise<{ mat: string }>;
+}
+
+// Comment lines keep idle connections open through proxies
+const KEEP_ALIVE_MS = 15000;
+
+export async function GET(request: Request, { params }: Context) {
+  const { mat } = await params;
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const unlisten = listenToMat(mat, message => send(`data: ${message}\n\n`));
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+      let stopped = false;
+
+      stop = () => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(keepAlive);
+        unlisten();
+      };
+      // The scoreboard disconnected. cancel() is called instead when the
+      // stream itself is cancelled.
+      request.signal.addEventListener('abort', () => {
+        if (stopped) return;
+        stop();
+        controller.close();
+      });
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { mat } = await params;
+
+  try {
+    const { bout } = await request.json();
+    publishBout(mat, bout ?? null);
+  } catch {
+    return new Response('Invalid bout', { status: 400 });
+  }
+
+  return new Response(null, { status: 204 });
+}
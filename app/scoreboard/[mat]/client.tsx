@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { advanceClock, followScoreboard, type LiveAthlete, type LiveBout } from '@/lib/scoreboard';
+import {
+  clockPhase,
+  deriveWinner,
+  formatClock,
+  formatPenalties,
+  JACKET_LABELS,
+  penaltiesOf,
+  WIN_TYPE_LABELS,
+  type Athlete,
+  type BoutScore,
+  type Jacket
+} from '@/lib/tournament';
+
+interface Props {
+  mat: string;
+}
+
+const ATHLETES: Athlete[] = ['player1', 'player2'];
+
+const JACKET_BACKGROUNDS: Record<Jacket, string> = {
+  blue: 'bg-blue-700',
+  green: 'bg-green-700'
+};
+
+function ScoreCounts({ score }: { score: BoutScore }) {
+  return (
+    <div className="grid grid-cols-3 gap-6 text-center">
+      {([['H', score.halol], ['Y', score.yonbosh], ['C', score.chala]] as [string, number][]).map(([label, count]) => (
+        <div key={label}>
+          <p className="text-[10vh] font-bold leading-none tabular-nums">{count}</p>
+          <p className="text-[3vh] opacity-75">{label}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AthletePanel({ bout, side }: { bout: LiveBout; side: Athlete }) {
+  const athlete: LiveAthlete = bout[side];
+  const jacket = bout.jackets[side];
+  const penalties = penaltiesOf(bout.breakdown, side);
+  const won = bout.result?.winner === side;
+
+  return (
+    <div className={`flex flex-col justify-between p-[4vh] ${JACKET_BACKGROUNDS[jacket]} ${bout.result && !won ? 'opacity-50' : ''}`}>
+      <div>
+        <p className="text-[3vh] uppercase tracking-wide opacity-75">{JACKET_LABELS[jacket]}</p>
+        <p className="text-[8vh] font-bold leading-tight truncate">{athlete.name}</p>
+        <p className="text-[4vh] opacity-90 truncate">{athlete.association}</p>
+      </div>
+      <ScoreCounts score={bout.breakdown[side]} />
+      <p className="text-[4vh] text-yellow-300 min-h-[5vh]">{formatPenalties(penalties)}</p>
+    </div>
+  );
+}
+
+// Follows the live bout on one mat. The clock runs locally between updates,
+// so the scoreboard needs nothing more than a browser that reaches the app
+// over the venue network.
+export function ScoreboardClient({ mat }: Props) {
+  const [bout, setBout] = useState<LiveBout | null>(null);
+  const [receivedAt, setReceivedAt] = useState(0);
+  const [now, setNow] = useState(0);
+
+  useEffect(() => {
+    return followScoreboard(mat, next => {
+      setBout(next);
+      setReceivedAt(Date.now());
+      setNow(Date.now());
+    });
+  }, [mat]);
+
+  useEffect(() => {
+    if (!bout?.clock.running) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [bout]);
+
+  if (!bout) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-gray-900 text-white">
+        <p className="text-[6vh] font-bold">Mat {mat}</p>
+        <p className="text-[3vh] opacity-75">Waiting for the next bout</p>
+      </div>
+    );
+  }
+
+  const current = advanceClock(bout, now - receivedAt);
+  const { elapsed, regulation } = current.clock;
+  const phase = clockPhase(elapsed, regulation, !deriveWinner(bout.breakdown));
+  const winner = bout.result && (bout.result.winner === 'player1' ? bout.player1 : bout.player2);
+
+  return (
+    <div
+      className="h-screen flex flex-col bg-gray-900 text-white select-none cursor-pointer"
+      title="Click for full screen"
+      onClick={() => document.documentElement.requestFullscreen?.()}
+    >
+      <div className="flex items-center justify-between px-[4vh] py-[2vh]">
+        <p className="text-[4vh] font-semibold truncate">Mat {mat} – {bout.title}</p>
+        <div className="text-right">
+          <p className={`text-[10vh] font-bold leading-none tabular-nums ${phase === 'golden_score' ? 'text-yellow-300' : ''}`}>
+            {phase === 'golden_score' ? `+${formatClock(elapsed - regulation)}` : formatClock(Math.ceil(regulation - elapsed))}
+          </p>
+          <p className="text-[3vh] opacity-75">
+            {phase === 'golden_score' ? 'Golden score' : phase === 'time_up' ? 'Time up' : bout.clock.running || elapsed === 0 ? '' : 'Paused'}
+          </p>
+        </div>
+      </div>
+      <div className="flex-1 grid grid-cols-2">
+        {ATHLETES.map(side => (
+          <AthletePanel key={side} bout={bout} side={side} />
+        ))}
+      </div>
+      {winner && bout.result && (
+        <div className="px-[4vh] py-[2vh] bg-yellow-400 text-gray-900 text-center">
+          <p className="text-[6vh] font-bold">
+            {winner.name} wins – {WIN_TYPE_LABELS[bout.result.winType]}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
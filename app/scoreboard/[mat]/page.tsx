@@ -0,0 +1,6 @@
+import { ScoreboardClient } from './client';
+
+// Full-screen scoreboard for a second monitor or projector, outside the dashboard layout
+export default function ScoreboardPage({ params }: any) {
+  return <ScoreboardClient mat={params.mat} />;
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { advanceClock, openScoreboardFeed, type LiveBout } from '@/lib/scoreboard';
+
+type ScoreboardFeed = ReturnType<typeof openScoreboardFeed>;
+
+// Sends the bout to the scoreboards on `mat` whenever it changes; null clears
+// them and closes the feed, so a sheet that was closed no longer answers
+// scoreboards that join. Nothing is sent, and no feed opened, while the bout
+// is undefined. The feed is also closed on unmount or a change of mat.
+// Pass a memoised bout: every new object is sent.
+export function useScoreboardFeed(mat: string, bout: LiveBout | null | undefined) {
+  const feed = useRef<ScoreboardFeed | null>(null);
+  const latest = useRef<{ bout: LiveBout | null; sentAt: number }>({ bout: null, sentAt: 0 });
+
+  useEffect(() => {
+    return () => {
+      feed.current?.close();
+      feed.current = null;
+    };
+  }, [mat]);
+
+  useEffect(() => {
+    if (bout === undefined) return;
+
+    if (bout === null) {
+      const closing = feed.current;
+      feed.current = null;
+      closing?.publish(null).finally(closing.close);
+      return;
+    }
+
+    latest.current = { bout, sentAt: Date.now() };
+    if (!feed.current) {
+      // A scoreboard that joins later gets the bout with the clock brought up to date
+      feed.current = openScoreboardFeed(mat, () => {
+        const { bout: current, sentAt } = latest.current;
+        return current && advanceClock(current, Date.now() - sentAt);
+      });
+    }
+    feed.current.publish(bout);
+  }, [mat, bout]);
+}
@@ -30,7 +30,7 @@ CREATE TABLE IF NOT EXISTS sub_event_match_results (
   player1_id UUID NOT NULL REFERENCES players(id),
   player2_id UUID NOT NULL REFERENCES players(id),
   winner_id UUID NOT NULL REFERENCES players(id),
-  match_stage TEXT NOT NULL, -- Pool A-1.1, Pool B-2.1, knockout, etc.
+  match_stage TEXT NOT NULL, -- Pool A-1.1, Pool B-2.1, knockout, repechage, bronze, round-robin-1.1, losers, grand-final, final, etc.
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -56,4 +56,251 @@ FROM
 JOIN 
   sub_events se ON sep.sub_event_id = se.id
 JOIN 
-  players p ON sep.player_id = p.id; 
\ No newline at end of file
+  players p ON sep.player_id = p.id; 
+
+-- Stored draws. The pools, groups and knockout order are saved when the draw
+-- is made so the bracket is rebuilt from the same draw on every page load.
+-- Once locked_at is set the draw can no longer be regenerated.
+CREATE TABLE IF NOT EXISTS event_draws (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL UNIQUE REFERENCES events(id) ON DELETE CASCADE,
+  draw JSONB NOT NULL, -- { seed, entrants: [{ id, name, association }], pools: [{ name, groups: [{ name, player_ids }], knockout: [group names] }] }
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sub_event_draws (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sub_event_id UUID NOT NULL UNIQUE REFERENCES sub_events(id) ON DELETE CASCADE,
+  draw JSONB NOT NULL,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Optional seeding of top-ranked athletes (1 = top seed). Seeds 1 and 2 are
+-- drawn into Pool A and Pool B, seeds 3 and 4 into opposite quarters.
+ALTER TABLE sub_event_participants ADD COLUMN IF NOT EXISTS seed_number INTEGER CHECK (seed_number BETWEEN 1 AND 8);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sub_event_participants_seed_number ON sub_event_participants(sub_event_id, seed_number);
+
+-- How the sub-event is contested. Small categories (2-5 entrants) can be run
+-- as a round robin; the draw records the system it was made with.
+ALTER TABLE sub_events ADD COLUMN IF NOT EXISTS competition_system TEXT NOT NULL DEFAULT 'pools_knockout'
+  CHECK (competition_system IN ('pools_knockout', 'round_robin'));
+
+-- Competition systems selectable when creating a sub-event
+ALTER TABLE sub_events DROP CONSTRAINT IF EXISTS sub_events_competition_system_check;
+ALTER TABLE sub_events ADD CONSTRAINT sub_events_competition_system_check
+  CHECK (competition_system IN ('single_elimination', 'pools_knockout', 'round_robin', 'double_elimination'));
+
+-- Kurash score sheet of each bout. The scores hold technical points (Halol 10,
+-- Yonbosh 5, Chala 1); the breakdown keeps the awarded scores in order.
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS player1_score INTEGER;
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS player2_score INTEGER;
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS score_breakdown JSONB; -- { player1: { halol, yonbosh, chala }, player2: {...}, events: [{ athlete, score } | { athlete, penalty }] }
+
+-- Age group of the sub-event and its regulation bout time in seconds. Without
+-- a bout time the age group's default applies (U15 2:00, U18 3:00, U21 and
+-- Senior 4:00, Veterans 3:00). Sub-events made before age groups have none and
+-- keep the date-of-birth range typed into dob_range.
+ALTER TABLE sub_events ADD COLUMN IF NOT EXISTS age_group TEXT
+  CHECK (age_group IN ('u15', 'u18', 'u21', 'senior', 'veterans'));
+-- The column was first added as NOT NULL DEFAULT 'senior'. Sub-events that
+-- only got 'senior' from that default have a hand-typed range rather than the
+-- open-ended one a Senior sub-event is created with ('[,2008-12-31]').
+ALTER TABLE sub_events ALTER COLUMN age_group DROP NOT NULL;
+ALTER TABLE sub_events ALTER COLUMN age_group DROP DEFAULT;
+UPDATE sub_events SET age_group = NULL
+WHERE age_group = 'senior'
+  AND (dob_range IS NULL OR (dob_range::text NOT LIKE '[,%' AND dob_range::text NOT LIKE '(,%'));
+ALTER TABLE sub_events ADD COLUMN IF NOT EXISTS bout_duration INTEGER CHECK (bout_duration > 0);
+
+-- Seconds the bout was actually fought, golden score included
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS duration_seconds INTEGER;
+
+-- How each bout was won. A walkover or medical withdrawal takes the loser out
+-- of the repechage, the bronze medal and the losers bracket. Bouts recorded
+-- before win types have none (NULL) unless their score sheet shows it.
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS win_type TEXT
+  CHECK (win_type IN ('technical', 'penalty', 'disqualification', 'walkover', 'medical_withdrawal'));
+-- The column was first added as NOT NULL DEFAULT 'technical', which gave
+-- 'technical' to every bout already recorded. Every result since then has a
+-- score sheet unless it is a walkover, so a 'technical' bout without one is
+-- one of those.
+ALTER TABLE sub_event_match_results ALTER COLUMN win_type DROP NOT NULL;
+ALTER TABLE sub_event_match_results ALTER COLUMN win_type DROP DEFAULT;
+UPDATE sub_event_match_results SET win_type = NULL
+WHERE win_type = 'technical' AND score_breakdown IS NULL;
+-- The win type of a bout with a score sheet, as deriveWinType gives it:
+-- disqualification after a Girrom, a penalty win when the athlete ahead is
+-- not ahead on the scores given for techniques, technical otherwise
+UPDATE sub_event_match_results AS result
+SET win_type = CASE
+  WHEN sheet.girrom > 0 THEN 'disqualification'
+  WHEN sheet.total1 > sheet.total2 AND NOT sheet.scored1 > sheet.scored2 THEN 'penalty'
+  WHEN sheet.total1 < sheet.total2 AND NOT sheet.scored1 < sheet.scored2 THEN 'penalty'
+  ELSE 'technical'
+END
+FROM (
+  SELECT
+    id,
+    ((score_breakdown->'player1'->>'halol')::int > 0, (score_breakdown->'player1'->>'yonbosh')::int, (score_breakdown->'player1'->>'chala')::int) AS total1,
+    ((score_breakdown->'player2'->>'halol')::int > 0, (score_breakdown->'player2'->>'yonbosh')::int, (score_breakdown->'player2'->>'chala')::int) AS total2,
+    (scored.halol1 > 0, scored.yonbosh1, scored.chala1) AS scored1,
+    (scored.halol2 > 0, scored.yonbosh2, scored.chala2) AS scored2,
+    scored.girrom
+  FROM sub_event_match_results
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE event->>'athlete' = 'player1' AND event->>'score' = 'halol') AS halol1,
+      count(*) FILTER (WHERE event->>'athlete' = 'player1' AND event->>'score' = 'yonbosh') AS yonbosh1,
+      count(*) FILTER (WHERE event->>'athlete' = 'player1' AND event->>'score' = 'chala') AS chala1,
+      count(*) FILTER (WHERE event->>'athlete' = 'player2' AND event->>'score' = 'halol') AS halol2,
+      count(*) FILTER (WHERE event->>'athlete' = 'player2' AND event->>'score' = 'yonbosh') AS yonbosh2,
+      count(*) FILTER (WHERE event->>'athlete' = 'player2' AND event->>'score' = 'chala') AS chala2,
+      count(*) FILTER (WHERE event->>'penalty' = 'girrom') AS girrom
+    FROM jsonb_array_elements(COALESCE(score_breakdown->'events', '[]')) AS event
+  ) AS scored
+  WHERE score_breakdown IS NOT NULL
+) AS sheet
+WHERE result.id = sheet.id AND (result.win_type IS NULL OR result.win_type = 'technical');
+-- Every bout recorded from now on needs a win type; NOT VALID leaves the older
+-- bouts without one
+ALTER TABLE sub_event_match_results DROP CONSTRAINT IF EXISTS sub_event_match_results_win_type_required;
+ALTER TABLE sub_event_match_results ADD CONSTRAINT sub_event_match_results_win_type_required
+  CHECK (win_type IS NOT NULL) NOT VALID;
+
+-- Every input on the scoring console for the bout, in order:
+-- [{ input, at, clock, action?, applied }]. Replaying the applied actions
+-- rebuilds score_breakdown.
+ALTER TABLE sub_event_match_results ADD COLUMN IF NOT EXISTS console_log JSONB;
+
+-- Audit history of corrected bout results: the result as first recorded, the
+-- corrected result and the later results removed because their bouts were
+-- paired from the original
+CREATE TABLE IF NOT EXISTS sub_event_result_corrections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sub_event_id UUID REFERENCES sub_events(id) ON DELETE CASCADE,
+  match_stage TEXT NOT NULL,
+  original_result JSONB NOT NULL,
+  corrected_result JSONB NOT NULL,
+  invalidated_results JSONB NOT NULL DEFAULT '[]',
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_sub_event_result_corrections_sub_event_id ON sub_event_result_corrections(sub_event_id);
+
+-- Protests (Care system video review) against recorded bouts. The fee is paid
+-- on filing, refunded when the jury upholds the protest and forfeited when it
+-- is rejected. Only one protest per bout can be open at a time.
+CREATE TABLE IF NOT EXISTS sub_event_protests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sub_event_id UUID REFERENCES sub_events(id) ON DELETE CASCADE,
+  match_result_id UUID REFERENCES sub_event_match_results(id) ON DELETE SET NULL,
+  match_stage TEXT NOT NULL,
+  protesting_player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  fee_amount INTEGER NOT NULL CHECK (fee_amount >= 0),
+  fee_status TEXT NOT NULL DEFAULT 'paid' CHECK (fee_status IN ('paid', 'refunded', 'forfeited')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'upheld', 'rejected')),
+  decision_notes TEXT,
+  result_changed BOOLEAN NOT NULL DEFAULT FALSE,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_sub_event_protests_sub_event_id ON sub_event_protests(sub_event_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sub_event_protests_open_bout
+  ON sub_event_protests(sub_event_id, match_stage) WHERE status = 'open';
+
+-- Official weigh-in. One session per event sets the weigh-in window and the
+-- tolerance in kg; each weighing records the official weight, the attempt
+-- (a second check is allowed within the window) and whether the athlete made
+-- the limits of their sub-event.
+CREATE TABLE IF NOT EXISTS weigh_in_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL UNIQUE REFERENCES events(id) ON DELETE CASCADE,
+  opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  tolerance_kg NUMERIC(4, 1) NOT NULL DEFAULT 0 CHECK (tolerance_kg >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (closes_at > opens_at)
+);
+
+CREATE TABLE IF NOT EXISTS weigh_ins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES weigh_in_sessions(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  sub_event_id UUID REFERENCES sub_events(id) ON DELETE SET NULL,
+  attempt INTEGER NOT NULL CHECK (attempt BETWEEN 1 AND 2),
+  weight NUMERIC(5, 1) NOT NULL CHECK (weight > 0),
+  passed BOOLEAN NOT NULL,
+  weighed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_weigh_ins_session_id ON weigh_ins(session_id);
+
+-- One weigh-in per attempt. An athlete weighed outside a sub-event has no
+-- sub_event_id, and NULLs never clash in a unique index, so those weigh-ins
+-- get their own partial index. Replaces the earlier UNIQUE constraint, which
+-- let them repeat, and a NULLS NOT DISTINCT index that needed PostgreSQL 15.
+-- Attempts that already repeat stop the migration and are listed, as for
+-- match results below; nothing is deleted here.
+ALTER TABLE weigh_ins DROP CONSTRAINT IF EXISTS weigh_ins_session_id_player_id_sub_event_id_attempt_key;
+DROP INDEX IF EXISTS idx_weigh_ins_attempt;
+DO $$
+DECLARE
+  duplicates TEXT;
+BEGIN
+  SELECT string_agg(format('session %s, player %s, sub-event %s, attempt %s: %s weigh-ins',
+      session_id, player_id, COALESCE(sub_event_id::text, 'none'), attempt, weigh_ins), E'\n')
+    INTO duplicates
+    FROM (
+      SELECT session_id, player_id, sub_event_id, attempt, COUNT(*) AS weigh_ins
+      FROM weigh_ins
+      GROUP BY session_id, player_id, sub_event_id, attempt
+      HAVING COUNT(*) > 1
+    ) repeated;
+
+  IF duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Weigh-in attempts recorded more than once in weigh_ins:%', E'\n' || duplicates
+      USING HINT = 'Keep one weigh-in of each attempt, delete the others, and run the migration again.';
+  END IF;
+END $$;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_weigh_ins_sub_event_attempt
+  ON weigh_ins(session_id, player_id, sub_event_id, attempt) WHERE sub_event_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_weigh_ins_attempt_without_sub_event
+  ON weigh_ins(session_id, player_id, attempt) WHERE sub_event_id IS NULL;
+
+-- Athletes who did not make weight. Withdrawn before the first bout of the
+-- sub-event they are left out of the (locked) draw; withdrawn later they stay
+-- in the bracket and their opponents are given walkovers.
+ALTER TABLE sub_event_participants ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'did_not_weigh_in'));
+ALTER TABLE sub_event_participants ADD COLUMN IF NOT EXISTS removed_from_draw BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE sub_event_participants ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMP WITH TIME ZONE;
+
+-- One result per bout. Results are saved with an upsert on this key, so a
+-- bout recorded from two open pages is stored once. Bouts that already have
+-- more than one result stop the migration: they are listed so an organiser
+-- can decide which result stands and delete the others before running it
+-- again. Nothing is deleted here.
+DO $$
+DECLARE
+  duplicates TEXT;
+BEGIN
+  SELECT string_agg(format('sub-event %s, %s: %s results', sub_event_id, match_stage, results), E'\n')
+    INTO duplicates
+    FROM (
+      SELECT sub_event_id, match_stage, COUNT(*) AS results
+      FROM sub_event_match_results
+      GROUP BY sub_event_id, match_stage
+      HAVING COUNT(*) > 1
+    ) repeated;
+
+  IF duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Bouts with more than one result in sub_event_match_results:%', E'\n' || duplicates
+      USING HINT = 'Keep one result of each bout, delete the others, and run the migration again.';
+  END IF;
+END $$;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sub_event_match_results_match_stage
+  ON sub_event_match_results(sub_event_id, match_stage);
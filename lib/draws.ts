@@ -0,0 +1,77 @@
+import { supabase } from '@/lib/supabase';
+import type { Draw } from '@/lib/tournament';
+
+// Draws are stored per main event (event_draws) and per sub-event (sub_event_draws)
+export type DrawScope = 'event' | 'sub_event';
+
+const DRAW_TABLES: Record<DrawScope, { table: string; column: string }> = {
+  event: { table: 'event_draws', column: 'event_id' },
+  sub_event: { table: 'sub_event_draws', column: 'sub_event_id' }
+};
+
+export interface StoredDraw {
+  id: string;
+  draw: Draw;
+  locked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export async function fetchStoredDraw(scope: DrawScope, ownerId: string): Promise<StoredDraw | null> {
+  const { table, column } = DRAW_TABLES[scope];
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq(column, ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch draw: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Saves (or replaces) an unlocked draw. Locked draws are never overwritten.
+export async function saveDraw(scope: DrawScope, ownerId: string, draw: Draw): Promise<StoredDraw> {
+  const { table, column } = DRAW_TABLES[scope];
+
+  const existing = await fetchStoredDraw(scope, ownerId);
+  if (existing?.locked_at) {
+    throw new Error('The draw is locked and can no longer be changed');
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .upsert(
+      { [column]: ownerId, draw, updated_at: new Date().toISOString() },
+      { onConflict: column }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save draw: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function lockDraw(scope: DrawScope, ownerId: string): Promise<StoredDraw> {
+  const { table, column } = DRAW_TABLES[scope];
+
+  const { data, error } = await supabase
+    .from(table)
+    .update({ locked_at: new Date().toISOString() })
+    .eq(column, ownerId)
+    .is('locked_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to lock draw: ${error.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,94 @@
+import { supabase } from '@/lib/supabase';
+import type { ScoreBreakdown, WinType } from '@/lib/tournament';
+
+// A past bout between two athletes, from a main event (match_results) or a
+// sub-event (sub_event_match_results). Main-event results have no score sheet.
+export interface HeadToHeadBout {
+  id: string;
+  event_id: string | null;
+  event_title: string;
+  sub_event_id: string | null;
+  sub_event_title: string | null;
+  match_stage: string;
+  player1_id: string;
+  player2_id: string;
+  winner_id: string;
+  win_type: WinType | null;
+  player1_score: number | null;
+  player2_score: number | null;
+  score_breakdown: ScoreBreakdown | null;
+  created_at: string | null;
+}
+
+export interface HeadToHeadRecord {
+  bouts: HeadToHeadBout[];
+  // Bouts won by each of the two athletes, by player id
+  wins: Record<string, number>;
+}
+
+// Every bout the two athletes have fought against each other across all
+// events, newest first
+export async function fetchHeadToHead(playerA: string, playerB: string): Promise<HeadToHeadRecord> {
+  const pairing = `and(player1_id.eq.${playerA},player2_id.eq.${playerB}),and(player1_id.eq.${playerB},player2_id.eq.${playerA})`;
+
+  const [subEventResults, eventResults] = await Promise.all([
+    supabase
+      .from('sub_event_match_results')
+      .select('*, sub_event:sub_events(id, title, event:events(id, title))')
+      .or(pairing),
+    supabase
+      .from('match_results')
+      .select('*, event:events(id, title)')
+      .or(pairing)
+  ]);
+
+  if (subEventResults.error) {
+    throw new Error(`Failed to fetch sub-event bouts: ${subEventResults.error.message}`);
+  }
+  if (eventResults.error) {
+    throw new Error(`Failed to fetch event bouts: ${eventResults.error.message}`);
+  }
+
+  const bouts: HeadToHeadBout[] = [
+    ...(subEventResults.data || []).map(result => ({
+      id: result.id,
+      event_id: result.sub_event?.event?.id ?? null,
+      event_title: result.sub_event?.event?.title || 'Unknown event',
+      sub_event_id: result.sub_event_id,
+      sub_event_title: result.sub_event?.title ?? null,
+      match_stage: result.match_stage,
+      player1_id: result.player1_id,
+      player2_id: result.player2_id,
+      winner_id: result.winner_id,
+      win_type: result.win_type ?? null,
+      player1_score: result.player1_score ?? null,
+      player2_score: result.player2_score ?? null,
+      score_breakdown: result.score_breakdown ?? null,
+      created_at: result.created_at ?? null
+    })),
+    ...(eventResults.data || []).map(result => ({
+      id: result.id,
+      event_id: result.event_id,
+      event_title: result.event?.title || 'Unknown event',
+      sub_event_id: null,
+      sub_event_title: null,
+      match_stage: result.match_stage,
+      player1_id: result.player1_id,
+      player2_id: result.player2_id,
+      winner_id: result.winner_id,
+      win_type: null,
+      player1_score: null,
+      player2_score: null,
+      score_breakdown: null,
+      created_at: result.created_at ?? null
+    }))
+  ].sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+
+  return {
+    bouts,
+    wins: {
+      [playerA]: bouts.filter(bout => bout.winner_id === playerA).length,
+      [playerB]: bouts.filter(bout => bout.winner_id === playerB).length
+    }
+  };
+}
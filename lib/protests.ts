@@ -0,0 +1,107 @@
+import { supabase } from '@/lib/supabase';
+
+// A coach's protest (Care system video review) against a recorded bout,
+// stored in sub_event_protests. The jury upholds or rejects it; an upheld
+// protest may change the result.
+export type ProtestStatus = 'open' | 'upheld' | 'rejected';
+
+// The fee is paid when the protest is filed, refunded when it is upheld and
+// kept by the organiser when it is rejected
+export type ProtestFeeStatus = 'paid' | 'refunded' | 'forfeited';
+
+// Default protest fee in rupees
+export const PROTEST_FEE = 1000;
+
+export const PROTEST_STATUS_LABELS: Record<ProtestStatus, string> = {
+  open: 'Open',
+  upheld: 'Upheld',
+  rejected: 'Rejected'
+};
+
+export const PROTEST_FEE_LABELS: Record<ProtestFeeStatus, string> = {
+  paid: 'Paid',
+  refunded: 'Refunded',
+  forfeited: 'Forfeited'
+};
+
+export interface Protest {
+  id: string;
+  sub_event_id: string;
+  // The protested result; null if the result was later removed by a correction
+  match_result_id: string | null;
+  match_stage: string;
+  // The athlete whose coach filed the protest
+  protesting_player_id: string;
+  reason: string;
+  fee_amount: number;
+  fee_status: ProtestFeeStatus;
+  status: ProtestStatus;
+  decision_notes: string | null;
+  result_changed: boolean;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export interface NewProtest {
+  match_result_id: string;
+  match_stage: string;
+  protesting_player_id: string;
+  reason: string;
+  fee_amount: number;
+}
+
+export async function fetchProtests(subEventId: string): Promise<Protest[]> {
+  const { data, error } = await supabase
+    .from('sub_event_protests')
+    .select('*')
+    .eq('sub_event_id', subEventId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch protests: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Only one protest per bout can be open at a time
+export async function fileProtest(subEventId: string, protest: NewProtest): Promise<Protest> {
+  const { data, error } = await supabase
+    .from('sub_event_protests')
+    .insert([{ sub_event_id: subEventId, ...protest, status: 'open', fee_status: 'paid' }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to file protest: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function decideProtest(
+  protestId: string,
+  status: Exclude<ProtestStatus, 'open'>,
+  notes: string,
+  resultChanged: boolean
+): Promise<Protest> {
+  const { data, error } = await supabase
+    .from('sub_event_protests')
+    .update({
+      status,
+      fee_status: status === 'upheld' ? 'refunded' : 'forfeited',
+      decision_notes: notes || null,
+      result_changed: resultChanged,
+      decided_at: new Date().toISOString()
+    })
+    .eq('id', protestId)
+    .eq('status', 'open')
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record the jury decision: ${error.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,51 @@
+import type { LiveBout } from '@/lib/scoreboard';
+
+// Server side of the local scoreboard transport. Runs in the app's own server,
+// so score sheets and scoreboards on the venue network reach it without an
+// internet connection. The state is kept in memory: after a restart the
+// scoreboards wait for the next update.
+
+type Listener = (message: string) => void;
+
+interface MatFeed {
+  bout: LiveBout | null;
+  sentAt: number;
+  listeners: Set<Listener>;
+}
+
+// Kept on globalThis so every route module sees the same mats in development
+const relay = globalThis as unknown as { scoreboardMats?: Map<string, MatFeed> };
+const mats = relay.scoreboardMats ?? (relay.scoreboardMats = new Map());
+
+function matFeed(mat: string): MatFeed {
+  let feed = mats.get(mat);
+  if (!feed) {
+    feed = { bout: null, sentAt: 0, listeners: new Set() };
+    mats.set(mat, feed);
+  }
+  return feed;
+}
+
+function message(feed: MatFeed): string {
+  return JSON.stringify({ bout: feed.bout, age: feed.bout ? Date.now() - feed.sentAt : 0 });
+}
+
+export function publishBout(mat: string, bout: LiveBout | null) {
+  const feed = matFeed(mat);
+  feed.bout = bout;
+  feed.sentAt = Date.now();
+  const update = message(feed);
+  feed.listeners.forEach(listener => listener(update));
+}
+
+// Sends the current bout straight away, then every update. Returns a
+// function that stops listening.
+export function listenToMat(mat: string, listener: Listener): () => void {
+  const feed = matFeed(mat);
+  feed.listeners.add(listener);
+  listener(message(feed));
+
+  return () => {
+    feed.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,158 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { Athlete, BoutJackets, ScoreBreakdown, WinType } from '@/lib/tournament';
+
+// Mats a scoreboard can follow; each has its own feed
+export const MATS = ['1', '2', '3', '4'];
+
+// How bouts reach the scoreboards. 'local' relays them through the app's own
+// server (/api/scoreboard/{mat}), so the score sheet and the scoreboards only
+// need the venue network. 'supabase' sends them over a Supabase Realtime
+// broadcast channel instead, for scoreboards away from the venue network.
+export type ScoreboardTransport = 'local' | 'supabase';
+
+export const SCOREBOARD_TRANSPORT: ScoreboardTransport =
+  process.env.NEXT_PUBLIC_SCOREBOARD_TRANSPORT === 'supabase' ? 'supabase' : 'local';
+
+export interface LiveAthlete {
+  name: string;
+  association: string;
+}
+
+// What the operator's score sheet shows, sent to the scoreboards on its mat
+// whenever it changes
+export interface LiveBout {
+  title: string;
+  player1: LiveAthlete;
+  player2: LiveAthlete;
+  jackets: BoutJackets;
+  breakdown: ScoreBreakdown;
+  clock: {
+    // Seconds on the clock when the update was sent
+    elapsed: number;
+    running: boolean;
+    regulation: number;
+  };
+  // Set once the result has been saved
+  result?: { winner: Athlete; winType: WinType };
+}
+
+// The bout as it stands `since` milliseconds after it was sent
+export function advanceClock(bout: LiveBout, since: number): LiveBout {
+  if (!bout.clock.running) return bout;
+  return { ...bout, clock: { ...bout.clock, elapsed: bout.clock.elapsed + since / 1000 } };
+}
+
+export interface ScoreboardFeed {
+  // null clears the scoreboards
+  publish: (bout: LiveBout | null) => Promise<unknown>;
+  close: () => void;
+}
+
+function relayUrl(mat: string): string {
+  return `/api/scoreboard/${encodeURIComponent(mat)}/`;
+}
+
+// Local relay (lib/scoreboard-relay.ts). It keeps the last bout of each mat,
+// so a scoreboard that joins is sent it straight away. Updates are posted one
+// after the other, so a slow request never overwrites a later score.
+function openRelayFeed(mat: string): ScoreboardFeed {
+  let sending: Promise<unknown> = Promise.resolve();
+
+  return {
+    publish: bout => {
+      sending = sending
+        .then(() => fetch(relayUrl(mat), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ bout })
+        }))
+        .catch(error => {
+          console.error('Error sending bout to the scoreboard:', error);
+        });
+      return sending;
+    },
+    close: () => {}
+  };
+}
+
+// Each message carries the bout and its age in milliseconds, to bring the
+// clock up to date. EventSource reconnects by itself and is sent the current
+// bout again.
+function followRelay(mat: string, onBout: (bout: LiveBout | null) => void) {
+  const source = new EventSource(relayUrl(mat));
+
+  source.onmessage = ({ data }) => {
+    const { bout, age }: { bout: LiveBout | null; age: number } = JSON.parse(data);
+    onBout(bout && advanceClock(bout, age));
+  };
+
+  return () => {
+    source.close();
+  };
+}
+
+// Supabase Realtime: one broadcast channel per mat
+const BOUT_EVENT = 'bout';
+const SYNC_EVENT = 'sync';
+
+function scoreboardChannel(mat: string): RealtimeChannel {
+  return supabase.channel(`scoreboard-mat-${mat}`);
+}
+
+function openChannelFeed(mat: string, current: () => LiveBout | null): ScoreboardFeed {
+  const channel = scoreboardChannel(mat);
+  const publish = (bout: LiveBout | null, sync = false) =>
+    channel.send({ type: 'broadcast', event: BOUT_EVENT, payload: { bout, sync } });
+
+  channel
+    .on('broadcast', { event: SYNC_EVENT }, () => {
+      publish(current(), true);
+    })
+    .subscribe();
+
+  return {
+    publish,
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+}
+
+// Asks the operator for the current bout once subscribed. Other sheets on
+// the mat may answer too; while a bout is live, answers without one (a closed
+// sheet or an earlier result) are ignored.
+function followChannel(mat: string, onBout: (bout: LiveBout | null) => void) {
+  const channel = scoreboardChannel(mat);
+  let live = false;
+
+  channel
+    .on('broadcast', { event: BOUT_EVENT }, ({ payload }) => {
+      const bout: LiveBout | null = payload.bout;
+      const isLive = Boolean(bout && !bout.result);
+      if (payload.sync && live && !isLive) return;
+      live = isLive;
+      onBout(bout);
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        channel.send({ type: 'broadcast', event: SYNC_EVENT, payload: {} });
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Operator side. `current` returns the bout to send to a scoreboard that has
+// just joined. Every call opens a new feed, so it must be closed once the
+// sheet no longer drives the scoreboard.
+export function openScoreboardFeed(mat: string, current: () => LiveBout | null): ScoreboardFeed {
+  return SCOREBOARD_TRANSPORT === 'supabase' ? openChannelFeed(mat, current) : openRelayFeed(mat);
+}
+
+// Scoreboard side. Returns a function that stops following the mat.
+export function followScoreboard(mat: string, onBout: (bout: LiveBout | null) => void): () => void {
+  return SCOREBOARD_TRANSPORT === 'supabase' ? followChannel(mat, onBout) : followRelay(mat, onBout);
+}
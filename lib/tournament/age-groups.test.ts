@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ageGroupDobRange, competitionYear, formatBirthYears, isInAgeGroup, isInDobRange } from './age-groups';
+
+describe('competitionYear', () => {
+  it('takes the end date, then the start date, then this year', () => {
+    expect(competitionYear({ event_date: '2026-12-30', event_end_date: '2027-01-02' })).toBe(2027);
+    expect(competitionYear({ event_date: '2026-12-30' })).toBe(2026);
+    expect(competitionYear({}, new Date('2025-06-01T00:00:00Z'))).toBe(2025);
+  });
+});
+
+describe('age group birth years', () => {
+  it('fills the DOB range from the birth years', () => {
+    expect(ageGroupDobRange('u18', 2026)).toBe('[2009-01-01,2011-12-31]');
+    expect(ageGroupDobRange('senior', 2026)).toBe('[,2008-12-31]');
+    expect(formatBirthYears('u15', 2026)).toBe('born 2012–2014');
+    expect(formatBirthYears('veterans', 2026)).toBe('born 1991 or earlier');
+  });
+});
+
+describe('isInAgeGroup', () => {
+  const cadets = { age_group: 'u18' as const, event_date: '2026-05-10' };
+
+  it('goes by the age reached in the competition year', () => {
+    expect(isInAgeGroup('2009-12-31', cadets)).toBe(true);
+    expect(isInAgeGroup('2011-01-01', cadets)).toBe(true);
+    expect(isInAgeGroup('2008-12-31', cadets)).toBe(false);
+    expect(isInAgeGroup('2012-01-01', cadets)).toBe(false);
+  });
+
+  it('leaves out athletes without a birth date', () => {
+    expect(isInAgeGroup(null, cadets)).toBe(false);
+    expect(isInAgeGroup(undefined, { dob_range: null })).toBe(false);
+  });
+
+  it('checks the typed-in DOB range of a sub-event without an age group', () => {
+    const underNineteen = { age_group: null, dob_range: '[2007-01-01,2009-12-31]', event_date: '2026-05-10' };
+
+    expect(isInAgeGroup('2007-01-01', underNineteen)).toBe(true);
+    expect(isInAgeGroup('2009-12-31', underNineteen)).toBe(true);
+    expect(isInAgeGroup('2006-12-31', underNineteen)).toBe(false);
+    expect(isInAgeGroup('2010-01-01', underNineteen)).toBe(false);
+  });
+
+  it('sets no age limit on a sub-event with neither an age group nor a DOB range', () => {
+    expect(isInAgeGroup('1970-01-01', { age_group: null, dob_range: null })).toBe(true);
+  });
+});
+
+describe('isInDobRange', () => {
+  it('reads open ends and the exclusive end of a Postgres daterange', () => {
+    expect(isInDobRange('2009-12-31', '[2007-01-01,2010-01-01)')).toBe(true);
+    expect(isInDobRange('2010-01-01', '[2007-01-01,2010-01-01)')).toBe(false);
+    expect(isInDobRange('1950-01-01', '[,2008-12-31]')).toBe(true);
+    expect(isInDobRange('2009-01-01', '(,2009-01-01)')).toBe(false);
+  });
+
+  it('admits nobody to a range it cannot read', () => {
+    expect(isInDobRange('2008-01-01', '2007 to 2009')).toBe(false);
+    expect(isInDobRange('2008-01-01', '[2007-01-01,soon]')).toBe(false);
+  });
+});
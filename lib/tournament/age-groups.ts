@@ -0,0 +1,76 @@
+import { AGE_GROUPS } from './timing';
+import type { AgeGroup } from './types';
+
+// Age groups go by birth year: an athlete's age is the age they reach in the
+// competition year, whatever their birthday, so everyone born in the same year
+// is in the same groups for the whole season.
+
+// The date a sub-event is contested on, as stored on sub_events
+export interface CompetitionDates {
+  event_date?: string | null;
+  event_end_date?: string | null;
+}
+
+// Year of the competition: its end date, otherwise its start, otherwise this
+// year. Dates are read in UTC, as they are stored.
+export function competitionYear({ event_date, event_end_date }: CompetitionDates, today: Date = new Date()): number {
+  const date = event_end_date || event_date;
+  return date ? new Date(date).getUTCFullYear() : today.getUTCFullYear();
+}
+
+export function competitionAge(birthDate: string, year: number): number {
+  return year - new Date(birthDate).getUTCFullYear();
+}
+
+// Birth years that fall in the age group; `from` is absent when it has no
+// upper age limit
+export function ageGroupBirthYears(ageGroup: AgeGroup, year: number): { from?: number; to: number } {
+  const { minAge, maxAge } = AGE_GROUPS.find(group => group.value === ageGroup)!;
+  return { from: maxAge === undefined ? undefined : year - maxAge, to: year - minAge };
+}
+
+// Date-of-birth range of the age group in the '[start,end]' form kept in
+// sub_events.dob_range; the start is left open without an upper age limit
+export function ageGroupDobRange(ageGroup: AgeGroup, year: number): string {
+  const { from, to } = ageGroupBirthYears(ageGroup, year);
+  return `[${from === undefined ? '' : `${from}-01-01`},${to}-12-31]`;
+}
+
+// e.g. "born 2012–2014" or "born 1991 or earlier"
+export function formatBirthYears(ageGroup: AgeGroup, year: number): string {
+  const { from, to } = ageGroupBirthYears(ageGroup, year);
+  return from === undefined ? `born ${to} or earlier` : `born ${from}–${to}`;
+}
+
+// Whether the birth date falls in a date-of-birth range as kept in
+// sub_events.dob_range: '[2007-01-01,2009-12-31]', or '[2007-01-01,2010-01-01)'
+// as Postgres writes a daterange. Either end may be open; a range that cannot
+// be read admits nobody.
+export function isInDobRange(birthDate: string, range: string): boolean {
+  const match = /^\s*([[(])\s*([^,]*?)\s*,\s*([^,]*?)\s*([\])])\s*$/.exec(range);
+  if (!match) return false;
+  const [, open, start, end, close] = match;
+  const from = start ? Date.parse(start) : undefined;
+  const to = end ? Date.parse(end) : undefined;
+  if (Number.isNaN(from) || Number.isNaN(to)) return false;
+
+  const born = Date.parse(birthDate);
+  const afterStart = from === undefined || (open === '[' ? born >= from : born > from);
+  const beforeEnd = to === undefined || (close === ']' ? born <= to : born < to);
+  return afterStart && beforeEnd;
+}
+
+// Whether an athlete is eligible for the sub-event's age group. Sub-events
+// made before age groups have none: their hand-typed dob_range is checked
+// instead, and without one either there is no age limit. Without a birth date
+// an athlete is not eligible.
+export function isInAgeGroup(
+  birthDate: string | null | undefined,
+  subEvent: CompetitionDates & { age_group?: AgeGroup | null; dob_range?: string | null }
+): boolean {
+  if (!birthDate) return false;
+  if (!subEvent.age_group) return !subEvent.dob_range || isInDobRange(birthDate, subEvent.dob_range);
+  const { minAge, maxAge } = AGE_GROUPS.find(group => group.value === subEvent.age_group)!;
+  const age = competitionAge(birthDate, competitionYear(subEvent));
+  return age >= minAge && (maxAge === undefined || age <= maxAge);
+}
@@ -0,0 +1,168 @@
+import { createGrandFinal, createLosersBracket, getWinnersBracketLosers } from './double-elimination';
+import { BOUT_JACKETS } from './jackets';
+import {
+  createFinalMatch,
+  createKnockoutMatchesForPool,
+  findResult,
+  getKnockoutSlots,
+  getPoolWinners,
+  isBye,
+  isDoubleWalkover,
+  isGroupStageComplete
+} from './knockout';
+import { groupStageId } from './pools';
+import { createRepechageForPool, getLosersToFinalist } from './repechage';
+import { lostByForfeit } from './scoring';
+import type { Bracket, CompetitionSystem, KnockoutMatch, MatchResult, Participant, Pool } from './types';
+
+// Derives the full bracket state (pool winners, pool knockouts, repechage and
+// the championship final) from a draw and the results recorded so far. The
+// competition system decides what follows the knockout: a repechage for
+// pools + knockout, straight semi-final bronzes for single elimination and a
+// losers bracket with a grand final for double elimination.
+export function buildBracket<P extends Participant>(
+  pools: Pool<P>[],
+  results: MatchResult[],
+  system: CompetitionSystem = 'pools_knockout'
+): Bracket<P> {
+  const poolWinners: Record<string, P[]> = {};
+  const poolKnockoutSlots: Record<string, (P | undefined)[]> = {};
+  const poolKnockoutMatches: Record<string, KnockoutMatch<P>[]> = {};
+  const poolFinalWinners: Record<string, P | undefined> = {};
+  const poolKnockoutComplete: Record<string, boolean> = {};
+  const poolRepechageMatches: Record<string, KnockoutMatch<P>[]> = {};
+  const bronzeMedallists: Record<string, P | undefined> = {};
+
+  for (const pool of pools) {
+    const winners = getPoolWinners(pool, results);
+    const slots = getKnockoutSlots(pool, results);
+    // The knockout is only paired once every group of the pool is decided
+    const knockout = isGroupStageComplete(pool, results)
+      ? createKnockoutMatchesForPool(slots, pool.name, results)
+      : { matches: [], complete: false, winner: undefined };
+
+    // Repechage opens once the pool winner (a finalist) is known. Without a
+    // repechage the last athlete to lose to the finalist, the semi-final
+    // loser, takes bronze. Athletes who lost by forfeit are out of both.
+    const losers = (knockout.winner ? getLosersToFinalist(pool, knockout.matches, knockout.winner, results) : [])
+      .map(loser => (lostByForfeit(results, loser.matchStage) ? undefined : loser.player));
+    const repechage = system === 'pools_knockout'
+      ? createRepechageForPool(losers.filter((loser): loser is P => loser !== undefined), pool.name, results)
+      : { matches: [], bronze: system === 'single_elimination' ? losers[losers.length - 1] : undefined };
+
+    poolWinners[pool.name] = winners;
+    poolKnockoutSlots[pool.name] = slots;
+    poolKnockoutMatches[pool.name] = knockout.matches;
+    poolFinalWinners[pool.name] = knockout.winner;
+    poolKnockoutComplete[pool.name] = Boolean(knockout.complete);
+    poolRepechageMatches[pool.name] = repechage.matches;
+    bronzeMedallists[pool.name] = repechage.bronze;
+  }
+
+  const [poolA, poolB] = pools;
+  const finalMatch = createFinalMatch(
+    poolA && poolFinalWinners[poolA.name],
+    poolB && poolFinalWinners[poolB.name],
+    results
+  );
+  const finalists = [finalMatch?.player1, finalMatch?.player2];
+  // A half whose knockout ended in a double walkover sends nobody to the
+  // final; the other half's winner then takes the title without a bout
+  const poolFinalists = [poolA, poolB]
+    .filter((pool): pool is Pool<P> => pool !== undefined && poolKnockoutComplete[pool.name])
+    .map(pool => poolFinalWinners[pool.name]);
+  const soleFinalist = !finalMatch && pools.length === 2 && poolFinalists.length === 2
+    ? poolFinalists.find(player => player !== undefined)
+    : undefined;
+  const finalWinner = finalMatch?.winner_id
+    ? finalists.find(player => player?.id === finalMatch.winner_id)
+    : soleFinalist;
+  const finalLoser = finalWinner && finalists.find(player => player && player.id !== finalWinner.id);
+
+  if (system !== 'double_elimination') {
+    return {
+      system,
+      pools,
+      poolWinners,
+      poolKnockoutSlots,
+      poolKnockoutMatches,
+      poolFinalWinners,
+      poolRepechageMatches,
+      bronzeMedallists,
+      finalMatch,
+      losersMatches: [],
+      grandFinalMatches: [],
+      champion: finalWinner,
+      runnerUp: finalLoser
+    };
+  }
+
+  // In double elimination the pool-winners bout is the winners-bracket final
+  const losersBracket = createLosersBracket(
+    getWinnersBracketLosers(pools, poolKnockoutMatches, poolKnockoutComplete, finalMatch, results),
+    results
+  );
+  // With nobody left in the losers bracket the winners-bracket final decides
+  // the title; with nobody out of the winners bracket the losers-bracket
+  // winner takes it
+  const grandFinal = losersBracket.complete && (!losersBracket.winner || !finalWinner)
+    ? { matches: [], champion: finalWinner ?? losersBracket.winner, runnerUp: finalLoser }
+    : createGrandFinal(finalWinner, losersBracket.winner, results);
+
+  return {
+    system,
+    pools,
+    poolWinners,
+    poolKnockoutSlots,
+    poolKnockoutMatches,
+    poolFinalWinners,
+    poolRepechageMatches,
+    bronzeMedallists,
+    finalMatch,
+    losersMatches: losersBracket.matches,
+    losersBronze: losersBracket.bronze,
+    grandFinalMatches: grandFinal.matches,
+    champion: grandFinal.champion,
+    runnerUp: grandFinal.runnerUp
+  };
+}
+
+// Every bout of the bracket in order: group bouts first, then the knockout,
+// repechage, final, losers bracket and grand final. Pool bouts are numbered
+// within their pool, so their stage is prefixed with the pool name.
+export function getAllBouts<P extends Participant>(bracket: Bracket<P>, results: MatchResult[]): KnockoutMatch<P>[] {
+  const groupBouts = bracket.pools.flatMap(pool =>
+    pool.groups
+      .filter(group => group.players.length === 2)
+      .map(group => ({
+        id: groupStageId(pool.name, group.name),
+        round: 0,
+        player1: group.players[0],
+        player2: group.players[1],
+        jackets: BOUT_JACKETS,
+        winner_id: findResult(results, groupStageId(pool.name, group.name))?.winner_id,
+        stage: `${pool.name} – Group ${group.name}`
+      }))
+  );
+
+  const poolBouts = (matchesByPool: Record<string, KnockoutMatch<P>[]>) =>
+    Object.entries(matchesByPool).flatMap(([poolName, matches]) =>
+      matches.map(match => ({ ...match, stage: `${poolName} – ${match.stage}` }))
+    );
+
+  return [
+    ...groupBouts,
+    ...poolBouts(bracket.poolKnockoutMatches),
+    ...poolBouts(bracket.poolRepechageMatches),
+    ...(bracket.finalMatch ? [bracket.finalMatch] : []),
+    ...bracket.losersMatches,
+    ...bracket.grandFinalMatches
+  ];
+}
+
+// Bouts that can be called now: both athletes known and no result yet. A
+// double walkover is never called.
+export function getBoutsToCall<P extends Participant>(bracket: Bracket<P>, results: MatchResult[]): KnockoutMatch<P>[] {
+  return getAllBouts(bracket, results)
+    .filter(match => !isBye(match) && !match.winner_id && !isDoubleWalkover(match.player1, match.player2));
+}
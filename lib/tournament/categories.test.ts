@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { fitsWeightRange, parseWeightRange, templateCategories } from './categories';
+import { OPEN_WEIGHT_LIMIT } from './weigh-in';
+
+describe('parseWeightRange', () => {
+  it('reads the range typed into the event', () => {
+    expect(parseWeightRange('40-120')).toEqual({ min: 40, max: 120 });
+    expect(parseWeightRange('40 kg – 120.5 kg')).toEqual({ min: 40, max: 120.5 });
+    expect(parseWeightRange('Open')).toBeNull();
+  });
+});
+
+describe('fitsWeightRange', () => {
+  const range = { min: 40, max: 120 };
+
+  it('fits limits that overlap the range', () => {
+    expect(fitsWeightRange({ min_weight: 38, max_weight: 42 }, range)).toBe(true);
+    expect(fitsWeightRange({ min_weight: 100, max_weight: OPEN_WEIGHT_LIMIT }, range)).toBe(true);
+    expect(fitsWeightRange({ min_weight: 60, max_weight: 66 }, range)).toBe(true);
+  });
+
+  it('does not fit limits that only touch or miss the range', () => {
+    expect(fitsWeightRange({ min_weight: 0, max_weight: 40 }, range)).toBe(false);
+    expect(fitsWeightRange({ min_weight: 120, max_weight: 130 }, range)).toBe(false);
+  });
+
+  it('fits any limits when the event has no range', () => {
+    expect(fitsWeightRange({ min_weight: 0, max_weight: 38 }, null)).toBe(true);
+  });
+});
+
+describe('templateCategories', () => {
+  it('leaves the lightest category open below and the heavyweight open above', () => {
+    const categories = templateCategories('senior', 'Male', null).map(({ category }) => category);
+
+    expect(categories.map(category => category.title)).toEqual([
+      'Senior Men -60 kg',
+      'Senior Men -66 kg',
+      'Senior Men -73 kg',
+      'Senior Men -81 kg',
+      'Senior Men -90 kg',
+      'Senior Men -100 kg',
+      'Senior Men +100 kg'
+    ]);
+    expect(categories[0]).toMatchObject({ min_weight: 0, max_weight: 60 });
+    expect(categories[1]).toMatchObject({ min_weight: 60, max_weight: 66 });
+    expect(categories[6]).toMatchObject({ min_weight: 100, max_weight: OPEN_WEIGHT_LIMIT });
+  });
+
+  it('creates the categories that overlap the event range', () => {
+    const fitting = templateCategories('u15', 'Male', { min: 40, max: 60 })
+      .filter(({ fits }) => fits)
+      .map(({ category }) => category.max_weight);
+
+    expect(fitting).toEqual([42, 46, 50, 55, 60]);
+  });
+});
@@ -0,0 +1,82 @@
+import { ageGroupLabel } from './timing';
+import { OPEN_WEIGHT_LIMIT, type WeightCategory } from './weigh-in';
+import type { AgeGroup } from './types';
+
+// Standard Kurash weight categories, used to create every sub-event of an
+// event in one step. Each list holds the upper limits in kg, lightest first;
+// a heavyweight category over the last limit is added. Junior and veterans
+// categories follow the senior ones.
+
+export type CategoryGender = 'Male' | 'Female';
+
+export const CATEGORY_GENDERS: { value: CategoryGender; label: string }[] = [
+  { value: 'Male', label: 'Men' },
+  { value: 'Female', label: 'Women' }
+];
+
+const SENIOR_LIMITS: Record<CategoryGender, number[]> = {
+  Male: [60, 66, 73, 81, 90, 100],
+  Female: [48, 52, 57, 63, 70, 78]
+};
+
+export const WEIGHT_CATEGORY_LIMITS: Record<AgeGroup, Record<CategoryGender, number[]>> = {
+  u15: {
+    Male: [38, 42, 46, 50, 55, 60, 66, 73],
+    Female: [36, 40, 44, 48, 52, 57, 63]
+  },
+  u18: {
+    Male: [50, 55, 60, 66, 73, 81, 90],
+    Female: [44, 48, 52, 57, 63, 70]
+  },
+  u21: SENIOR_LIMITS,
+  senior: SENIOR_LIMITS,
+  veterans: SENIOR_LIMITS
+};
+
+export interface TemplateCategory extends WeightCategory {
+  title: string;
+}
+
+// An event's weight range as typed in events.weight_category, e.g. "40-120"
+// or "40 kg – 120 kg"; null when it does not give one
+export function parseWeightRange(weightCategory: string): { min: number; max: number } | null {
+  const match = weightCategory.match(/(\d+(?:\.\d+)?)\s*(?:kg)?\s*[-–]\s*(\d+(?:\.\d+)?)/i);
+  return match ? { min: parseFloat(match[1]), max: parseFloat(match[2]) } : null;
+}
+
+// Whether a sub-event's weight limits fit the event's range: they must
+// overlap it, e.g. -42 kg (38–42) fits "40-120". Any limits fit an event
+// without a range.
+export function fitsWeightRange(category: WeightCategory, range: { min: number; max: number } | null): boolean {
+  return !range || (category.min_weight < range.max && category.max_weight > range.min);
+}
+
+// The template's categories with their limits. The lightest category is open
+// below and the heavyweight open above; see fitsWeightRange for which fit the
+// event.
+export function templateCategories(
+  ageGroup: AgeGroup,
+  gender: CategoryGender,
+  range: { min: number; max: number } | null
+): { category: TemplateCategory; fits: boolean }[] {
+  const limits = WEIGHT_CATEGORY_LIMITS[ageGroup][gender];
+  const prefix = `${ageGroupLabel(ageGroup)} ${CATEGORY_GENDERS.find(option => option.value === gender)!.label}`;
+
+  const categories: TemplateCategory[] = [
+    ...limits.map((limit, i) => ({
+      title: `${prefix} -${limit} kg`,
+      min_weight: i === 0 ? 0 : limits[i - 1],
+      max_weight: limit
+    })),
+    {
+      title: `${prefix} +${limits[limits.length - 1]} kg`,
+      min_weight: limits[limits.length - 1],
+      max_weight: OPEN_WEIGHT_LIMIT
+    }
+  ];
+
+  return categories.map(category => ({
+    category,
+    fits: fitsWeightRange(category, range)
+  }));
+}
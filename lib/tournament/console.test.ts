@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { actionForKey, applyConsoleAction, bindingForAction, formatKey, KEY_BINDINGS, replayConsoleLog } from './console';
+import { BOUT_JACKETS } from './jackets';
+import type { BoutJackets, ConsoleAction, ConsoleLogEntry } from './types';
+
+function entry(input: string, action: ConsoleAction | undefined, applied = true): ConsoleLogEntry {
+  return { input, at: 0, clock: 0, action, applied };
+}
+
+describe('actionForKey', () => {
+  it('scores blue with the left hand and green with the right', () => {
+    expect(actionForKey('q')).toEqual({ kind: 'award', jacket: 'blue', award: 'halol' });
+    expect(actionForKey('o')).toEqual({ kind: 'award', jacket: 'green', award: 'chala' });
+    expect(actionForKey(' ')).toEqual({ kind: 'clock' });
+    expect(actionForKey('Backspace')).toEqual({ kind: 'undo' });
+    expect(actionForKey('Enter')).toEqual({ kind: 'confirm' });
+  });
+
+  it('gives a Girrom with Shift on the penalty key', () => {
+    expect(actionForKey('r')).toEqual({ kind: 'award', jacket: 'blue', award: 'penalty' });
+    expect(actionForKey('R', true)).toEqual({ kind: 'award', jacket: 'blue', award: 'girrom' });
+    expect(actionForKey('P', true)).toEqual({ kind: 'award', jacket: 'green', award: 'girrom' });
+  });
+
+  it('ignores Caps Lock and unbound keys', () => {
+    expect(actionForKey('W')).toEqual(actionForKey('w'));
+    expect(actionForKey('w', true)).toBeUndefined();
+    expect(actionForKey('x')).toBeUndefined();
+  });
+
+  it('binds every key once', () => {
+    const keys = KEY_BINDINGS.map(binding => formatKey(binding));
+
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(KEY_BINDINGS.every(binding => bindingForAction(binding.action) === binding)).toBe(true);
+    expect(formatKey({ key: 'r', shift: true })).toBe('Shift+R');
+    expect(formatKey({ key: ' ' })).toBe('Space');
+  });
+});
+
+describe('applyConsoleAction', () => {
+  it('scores the athlete wearing the jacket', () => {
+    const swapped: BoutJackets = { player1: 'green', player2: 'blue' };
+
+    expect(applyConsoleAction([], actionForKey('q')!, BOUT_JACKETS)).toEqual([{ athlete: 'player1', score: 'halol' }]);
+    expect(applyConsoleAction([], actionForKey('q')!, swapped)).toEqual([{ athlete: 'player2', score: 'halol' }]);
+  });
+
+  it('escalates penalties and undoes the last entry', () => {
+    const once = applyConsoleAction([], actionForKey('p')!, BOUT_JACKETS);
+    const twice = applyConsoleAction(once, actionForKey('p')!, BOUT_JACKETS);
+
+    expect(twice).toEqual([
+      { athlete: 'player2', penalty: 'tanbeh' },
+      { athlete: 'player2', penalty: 'dakki' }
+    ]);
+    expect(applyConsoleAction(twice, { kind: 'undo' }, BOUT_JACKETS)).toEqual(once);
+    expect(applyConsoleAction(twice, { kind: 'clock' }, BOUT_JACKETS)).toBe(twice);
+  });
+});
+
+describe('replayConsoleLog', () => {
+  it('rebuilds the score sheet from the applied actions only', () => {
+    const log = [
+      entry('W', actionForKey('w')),
+      entry('X', undefined, false),
+      entry('I', actionForKey('i')),
+      entry('Backspace', { kind: 'undo' }),
+      entry('E', actionForKey('e'), false),
+      entry('click', { kind: 'forfeit', jacket: 'green', winType: 'medical_withdrawal' }, false),
+      entry('Enter', { kind: 'confirm' })
+    ];
+
+    expect(replayConsoleLog(log, BOUT_JACKETS)).toEqual([{ athlete: 'player1', score: 'yonbosh' }]);
+  });
+});
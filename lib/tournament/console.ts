@@ -0,0 +1,69 @@
+import { nextPenalty, penaltiesOf, tallyScores } from './scoring';
+import type { Athlete, BoutEvent, BoutJackets, ConsoleAction, ConsoleLogEntry, Jacket } from './types';
+
+export interface KeyBinding {
+  // Letters are lowercase; Caps Lock does not change what a key does
+  key: string;
+  shift?: boolean;
+  label: string;
+  action: ConsoleAction;
+}
+
+// Blue is scored with the left hand, green with the right; Shift with the
+// penalty key gives a Girrom straight away
+export const KEY_BINDINGS: KeyBinding[] = [
+  { key: 'q', label: 'Halol', action: { kind: 'award', jacket: 'blue', award: 'halol' } },
+  { key: 'w', label: 'Yonbosh', action: { kind: 'award', jacket: 'blue', award: 'yonbosh' } },
+  { key: 'e', label: 'Chala', action: { kind: 'award', jacket: 'blue', award: 'chala' } },
+  { key: 'r', label: 'Penalty', action: { kind: 'award', jacket: 'blue', award: 'penalty' } },
+  { key: 'r', shift: true, label: 'Girrom', action: { kind: 'award', jacket: 'blue', award: 'girrom' } },
+  { key: 'u', label: 'Halol', action: { kind: 'award', jacket: 'green', award: 'halol' } },
+  { key: 'i', label: 'Yonbosh', action: { kind: 'award', jacket: 'green', award: 'yonbosh' } },
+  { key: 'o', label: 'Chala', action: { kind: 'award', jacket: 'green', award: 'chala' } },
+  { key: 'p', label: 'Penalty', action: { kind: 'award', jacket: 'green', award: 'penalty' } },
+  { key: 'p', shift: true, label: 'Girrom', action: { kind: 'award', jacket: 'green', award: 'girrom' } },
+  { key: ' ', label: 'Start / pause clock', action: { kind: 'clock' } },
+  { key: 'Backspace', label: 'Undo last', action: { kind: 'undo' } },
+  { key: 'Enter', label: 'Confirm result', action: { kind: 'confirm' } }
+];
+
+// The action of a key press, from the key and whether Shift was held. With
+// Caps Lock on a letter arrives in uppercase, so letters are compared lowercased.
+export function actionForKey(key: string, shift = false): ConsoleAction | undefined {
+  const pressed = key.length === 1 ? key.toLowerCase() : key;
+  return KEY_BINDINGS.find(binding => binding.key === pressed && Boolean(binding.shift) === shift)?.action;
+}
+
+export function bindingForAction(action: ConsoleAction): KeyBinding | undefined {
+  return KEY_BINDINGS.find(binding => JSON.stringify(binding.action) === JSON.stringify(action));
+}
+
+// e.g. "Q", "Shift+R", "Space"
+export function formatKey({ key, shift }: Pick<KeyBinding, 'key' | 'shift'>): string {
+  const name = key === ' ' ? 'Space' : key.length === 1 ? key.toUpperCase() : key;
+  return shift ? `Shift+${name}` : name;
+}
+
+export function athleteInJacket(jackets: BoutJackets, jacket: Jacket): Athlete {
+  return jackets.player1 === jacket ? 'player1' : 'player2';
+}
+
+// The score sheet after an award or undo; other actions leave it unchanged
+export function applyConsoleAction(events: BoutEvent[], action: ConsoleAction, jackets: BoutJackets): BoutEvent[] {
+  if (action.kind === 'undo') return events.slice(0, -1);
+  if (action.kind !== 'award') return events;
+
+  const athlete = athleteInJacket(jackets, action.jacket);
+  if (action.award === 'girrom') return [...events, { athlete, penalty: 'girrom' }];
+  if (action.award === 'penalty') {
+    return [...events, { athlete, penalty: nextPenalty(penaltiesOf(tallyScores(events), athlete)) }];
+  }
+  return [...events, { athlete, score: action.award }];
+}
+
+// Rebuilds the score sheet from a console log
+export function replayConsoleLog(log: ConsoleLogEntry[], jackets: BoutJackets): BoutEvent[] {
+  return log
+    .filter(entry => entry.applied && entry.action)
+    .reduce((events, entry) => applyConsoleAction(events, entry.action!, jackets), [] as BoutEvent[]);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { buildBracket, getBoutsToCall } from './bracket';
+import { getDependentBouts, medalsChanged, previewCorrection } from './corrections';
+import { hydrateDraw, makeDraw } from './draw';
+import { createRoundRobinMatches } from './round-robin';
+import type { CompetitionSystem, KnockoutMatch, MatchResult, Participant } from './types';
+
+function entrants(count: number): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${i}`,
+    name: `Athlete ${i}`,
+    association: `Club ${i}`,
+    seed_number: null
+  }));
+}
+
+function win(match: KnockoutMatch<Participant>, winner = match.player1!): MatchResult {
+  return { match_stage: match.id, player1_id: match.player1!.id, player2_id: match.player2!.id, winner_id: winner.id };
+}
+
+function reversed(result: MatchResult): MatchResult {
+  return { ...result, winner_id: result.winner_id === result.player1_id ? result.player2_id : result.player1_id };
+}
+
+// Plays the whole bracket, the first athlete winning every bout
+function playBracket(count: number, system: CompetitionSystem) {
+  const pools = hydrateDraw(makeDraw(entrants(count), 'corrections', system), entrants(count));
+  const results: MatchResult[] = [];
+  for (;;) {
+    const [bout] = getBoutsToCall(buildBracket(pools, results, system), results);
+    if (!bout) return { pools, results };
+    results.push(win(bout));
+  }
+}
+
+describe('previewCorrection', () => {
+  it('invalidates the later bouts the corrected winner went on to fight', () => {
+    const { pools, results } = playBracket(8, 'single_elimination');
+    const champion = buildBracket(pools, results, 'single_elimination').champion!;
+    const first = results.find(result => result.winner_id === champion.id)!;
+    const preview = previewCorrection(pools, results, 'single_elimination', reversed(first));
+    const championBouts = results.filter(result =>
+      result !== first && (result.player1_id === champion.id || result.player2_id === champion.id)
+    );
+
+    expect(preview.invalidated.map(({ result }) => result)).toEqual(expect.arrayContaining(championBouts));
+    expect(preview.invalidated.every(({ result }) => result !== first)).toBe(true);
+    expect(preview.results).toContainEqual(reversed(first));
+    expect(preview.results.some(result => preview.invalidated.some(({ result: stale }) => stale === result))).toBe(false);
+    expect(medalsChanged(preview)).toBe(true);
+    expect(preview.medalsAfter.some(medal => medal.place === 1)).toBe(false);
+  });
+
+  it('keeps every other result when the corrected bout was the final', () => {
+    const { pools, results } = playBracket(8, 'single_elimination');
+    const final = results.find(result => result.match_stage === 'final')!;
+    const preview = previewCorrection(pools, results, 'single_elimination', reversed(final));
+
+    expect(preview.invalidated).toEqual([]);
+    expect(preview.medalsAfter.find(medal => medal.place === 1)!.player.id).toBe(final.player2_id);
+  });
+
+  it('only moves the standings in a round robin', () => {
+    const players = entrants(4);
+    const pools = hydrateDraw(makeDraw(players, 'corrections', 'round_robin'), players);
+    const results = createRoundRobinMatches(pools.flatMap(pool => pool.groups.flatMap(group => group.players)), []).map(match => win(match));
+    const preview = previewCorrection(pools, results, 'round_robin', reversed(results[0]));
+
+    expect(preview.invalidated).toEqual([]);
+    expect(preview.results).toHaveLength(results.length);
+    expect(medalsChanged(preview)).toBe(true);
+  });
+});
+
+describe('getDependentBouts', () => {
+  it('lists the bouts that would be fought by someone else if the result were reversed', () => {
+    const { pools, results } = playBracket(8, 'single_elimination');
+    const champion = buildBracket(pools, results, 'single_elimination').champion!;
+    const first = results.find(result => result.winner_id === champion.id)!;
+    const dependent = getDependentBouts(pools, results, 'single_elimination', first.match_stage);
+
+    expect(dependent.length).toBeGreaterThan(0);
+    expect(dependent.every(bout => bout.player1?.id === champion.id || bout.player2?.id === champion.id)).toBe(true);
+    expect(dependent.map(bout => bout.id)).toContain('final');
+  });
+
+  it('has none for the final or a bout without a result', () => {
+    const { pools, results } = playBracket(8, 'single_elimination');
+
+    expect(getDependentBouts(pools, results, 'single_elimination', 'final')).toEqual([]);
+    expect(getDependentBouts(pools, [], 'single_elimination', 'final')).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { buildBracket, getAllBouts } from './bracket';
+import { createRoundRobinMatches, getRoundRobinStandings, isRoundRobinComplete } from './round-robin';
+import type { CompetitionSystem, KnockoutMatch, MatchResult, Participant, Pool } from './types';
+
+export interface Medallist<P extends Participant = Participant> {
+  place: 1 | 2 | 3;
+  player: P;
+}
+
+// A recorded result that no longer stands after a correction, with the bout
+// it was recorded for
+export interface InvalidatedResult<P extends Participant = Participant> {
+  result: MatchResult;
+  bout: KnockoutMatch<P>;
+}
+
+export interface CorrectionPreview<P extends Participant = Participant> {
+  // Results once the correction is applied and the invalidated results removed
+  results: MatchResult[];
+  invalidated: InvalidatedResult<P>[];
+  medalsBefore: Medallist<P>[];
+  medalsAfter: Medallist<P>[];
+}
+
+interface SubEventState<P extends Participant> {
+  bouts: KnockoutMatch<P>[];
+  medallists: Medallist<P>[];
+}
+
+function getSubEventState<P extends Participant>(
+  pools: Pool<P>[],
+  results: MatchResult[],
+  system: CompetitionSystem
+): SubEventState<P> {
+  if (system === 'round_robin') {
+    const players = pools.flatMap(pool => pool.groups.flatMap(group => group.players));
+    const bouts = createRoundRobinMatches(players, results);
+    const medallists = isRoundRobinComplete(bouts)
+      ? getRoundRobinStandings(players, bouts, results)
+        .filter(standing => standing.rank <= 3)
+        .map(standing => ({ place: standing.rank as Medallist['place'], player: standing.player }))
+      : [];
+    return { bouts, medallists };
+  }
+
+  const bracket = buildBracket(pools, results, system);
+  const bronzes = [...Object.values(bracket.bronzeMedallists), bracket.losersBronze]
+    .filter((player): player is P => player !== undefined);
+  const medallists: Medallist<P>[] = [
+    ...(bracket.champion ? [{ place: 1 as const, player: bracket.champion }] : []),
+    ...(bracket.runnerUp ? [{ place: 2 as const, player: bracket.runnerUp }] : []),
+    ...bronzes.map(player => ({ place: 3 as const, player }))
+  ];
+  return { bouts: getAllBouts(bracket, results), medallists };
+}
+
+function foughtBy(bout: KnockoutMatch | undefined, result: MatchResult): boolean {
+  const ids = [bout?.player1?.id, bout?.player2?.id];
+  return ids.includes(result.player1_id) && ids.includes(result.player2_id);
+}
+
+// What changes when a recorded result is corrected. Later bouts are paired
+// from earlier winners, so a result stands only while its bout still has the
+// same two athletes; results that lose their bout are invalidated, and that
+// is repeated until nothing else changes. Medals are compared before and
+// after. In a round robin every pairing is fixed, so only the standings move.
+export function previewCorrection<P extends Participant>(
+  pools: Pool<P>[],
+  results: MatchResult[],
+  system: CompetitionSystem,
+  corrected: MatchResult
+): CorrectionPreview<P> {
+  const before = getSubEventState(pools, results, system);
+  // Results that did not match their bout before the correction are left alone
+  const standing = results.filter(result =>
+    result.match_stage !== corrected.match_stage &&
+    foughtBy(before.bouts.find(bout => bout.id === result.match_stage), result)
+  );
+
+  let current = results.map(result => (result.match_stage === corrected.match_stage ? corrected : result));
+  const invalidated: InvalidatedResult<P>[] = [];
+  for (;;) {
+    const { bouts } = getSubEventState(pools, current, system);
+    const stale = standing.filter(result =>
+      current.includes(result) && !foughtBy(bouts.find(bout => bout.id === result.match_stage), result)
+    );
+    if (stale.length === 0) break;
+
+    invalidated.push(...stale.map(result => ({
+      result,
+      bout: before.bouts.find(bout => bout.id === result.match_stage)!
+    })));
+    current = current.filter(result => !stale.includes(result));
+  }
+
+  return {
+    results: current,
+    invalidated: invalidated.sort((a, b) => before.bouts.indexOf(a.bout) - before.bouts.indexOf(b.bout)),
+    medalsBefore: before.medallists,
+    medalsAfter: getSubEventState(pools, current, system).medallists
+  };
+}
+
+export function medalsChanged<P extends Participant>({ medalsBefore, medalsAfter }: CorrectionPreview<P>): boolean {
+  const key = (medals: Medallist<P>[]) =>
+    medals.map(medal => `${medal.place}:${medal.player.id}`).sort().join(',');
+  return key(medalsBefore) !== key(medalsAfter);
+}
+
+// Bouts whose athletes hang on a recorded result: the bouts that would be
+// fought by someone else if it had gone the other way. A bout under protest
+// holds these back until the jury decides.
+export function getDependentBouts<P extends Participant>(
+  pools: Pool<P>[],
+  results: MatchResult[],
+  system: CompetitionSystem,
+  matchStage: string
+): KnockoutMatch<P>[] {
+  const result = results.find(candidate => candidate.match_stage === matchStage);
+  if (!result) return [];
+
+  const reversed = {
+    ...result,
+    winner_id: result.winner_id === result.player1_id ? result.player2_id : result.player1_id
+  };
+  const { bouts } = getSubEventState(pools, results, system);
+  const reversedBouts = getSubEventState(
+    pools,
+    results.map(candidate => (candidate === result ? reversed : candidate)),
+    system
+  ).bouts;
+
+  return bouts.filter(bout => {
+    if (bout.id === matchStage || !bout.player1 || !bout.player2) return false;
+    const other = reversedBouts.find(candidate => candidate.id === bout.id);
+    const ids = [other?.player1?.id, other?.player2?.id];
+    return !ids.includes(bout.player1.id) || !ids.includes(bout.player2.id);
+  });
+}
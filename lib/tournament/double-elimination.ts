@@ -0,0 +1,220 @@
+import { BOUT_JACKETS } from './jackets';
+import { findResult, isBye, isDoubleWalkover, winnerOf } from './knockout';
+import { groupStageId } from './pools';
+import { isForfeit, lostByForfeit } from './scoring';
+import type { KnockoutMatch, MatchResult, Participant, Pool } from './types';
+
+function loserOf<P extends Participant>(match: KnockoutMatch<P>): P | undefined {
+  if (!match.winner_id) return undefined;
+  return match.player1?.id === match.winner_id ? match.player2 : match.player1;
+}
+
+export interface WinnersBracketLosers<P extends Participant> {
+  // Losers of each fully decided winners-bracket round: the group bouts, each
+  // pool knockout round and finally the bout between the two pool winners
+  rounds: P[][];
+  complete: boolean;
+}
+
+// Athletes who dropped out of the winners bracket, round by round. A round is
+// only listed once every bout of it is decided in both pools. Athletes who
+// lost by forfeit do not go on to the losers bracket, and a double walkover
+// sends nobody there.
+export function getWinnersBracketLosers<P extends Participant>(
+  pools: Pool<P>[],
+  poolKnockoutMatches: Record<string, KnockoutMatch<P>[]>,
+  poolKnockoutComplete: Record<string, boolean>,
+  finalMatch: KnockoutMatch<P> | null,
+  results: MatchResult[]
+): WinnersBracketLosers<P> {
+  const rounds: P[][] = [];
+
+  const groupLosers: P[] = [];
+  for (const pool of pools) {
+    for (const group of pool.groups.filter(g => g.players.length === 2)) {
+      const [player1, player2] = group.players;
+      const matchStage = groupStageId(pool.name, group.name);
+      const winner = winnerOf(findResult(results, matchStage), player1, player2);
+      if (!winner && isDoubleWalkover(player1, player2)) continue;
+      if (!winner) return { rounds, complete: false };
+      if (!lostByForfeit(results, matchStage)) groupLosers.push(winner.id === player1.id ? player2 : player1);
+    }
+  }
+  rounds.push(groupLosers);
+
+  for (let round = 1; ; round++) {
+    const roundLosers: P[] = [];
+    let played = false;
+
+    for (const pool of pools) {
+      const matches = (poolKnockoutMatches[pool.name] || []).filter(match => match.round === round);
+      if (matches.length === 0) {
+        // Either the pool knockout is over or this round is not paired yet
+        if (!poolKnockoutComplete[pool.name]) return { rounds, complete: false };
+        continue;
+      }
+
+      played = true;
+      for (const match of matches.filter(m => !isBye(m))) {
+        const loser = loserOf(match);
+        if (!loser && isDoubleWalkover(match.player1, match.player2)) continue;
+        if (!loser) return { rounds, complete: false };
+        if (!lostByForfeit(results, match.id)) roundLosers.push(loser);
+      }
+    }
+
+    if (!played) break;
+    rounds.push(roundLosers);
+  }
+
+  // Without a final, or with a double walkover in it, nobody loses the
+  // winners-bracket final
+  if (!finalMatch) return { rounds, complete: pools.length === 2 };
+  if (!finalMatch.winner_id && isDoubleWalkover(finalMatch.player1, finalMatch.player2)) {
+    return { rounds, complete: true };
+  }
+  const finalLoser = finalMatch && loserOf(finalMatch);
+  if (!finalLoser) return { rounds, complete: false };
+  rounds.push(lostByForfeit(results, finalMatch.id) ? [] : [finalLoser]);
+
+  return { rounds, complete: true };
+}
+
+export interface LosersBracket<P extends Participant> {
+  matches: KnockoutMatch<P>[];
+  // Played to the end; without a winner everyone in it withdrew
+  complete?: boolean;
+  winner?: P;
+  // Loser of the last losers-bracket bout
+  bronze?: P;
+}
+
+// Builds the losers bracket as athletes drop out of the winners bracket.
+// Before each intake the survivors are thinned out until there are no more of
+// them than newcomers, then survivors meet newcomers; newcomers left over meet
+// each other. With an odd number the first athlete gets a bye, as in the pool
+// knockout. Once the winners-bracket final loser has come in, the bracket is
+// played down to a single winner.
+export function createLosersBracket<P extends Participant>(
+  winnersBracketLosers: WinnersBracketLosers<P>,
+  results: MatchResult[]
+): LosersBracket<P> {
+  const matches: KnockoutMatch<P>[] = [];
+  let round = 0;
+  let lastLoser: P | undefined;
+
+  // Plays one losers-bracket round; undefined while any of its bouts is open
+  const playRound = (pairs: [P, P][], byes: P[]): P[] | undefined => {
+    if (pairs.length === 0) return byes;
+
+    round++;
+    const winners: P[] = [...byes];
+    let roundComplete = true;
+
+    pairs.forEach(([player1, player2], index) => {
+      const id = `losers-${round}-match${index}`;
+      const winner = winnerOf(findResult(results, id), player1, player2);
+      const doubleWalkover = !winner && isDoubleWalkover(player1, player2);
+      matches.push({
+        id,
+        round,
+        player1,
+        player2,
+        jackets: BOUT_JACKETS,
+        winner_id: winner?.id,
+        stage: `Losers Round ${round} Bout ${index + 1}${doubleWalkover ? ' (Double Walkover)' : ''}`
+      });
+
+      if (winner) {
+        winners.push(winner);
+        lastLoser = winner.id === player1.id ? player2 : player1;
+      } else if (!doubleWalkover) {
+        roundComplete = false;
+      }
+    });
+
+    return roundComplete ? winners : undefined;
+  };
+
+  const pairAmongThemselves = (players: P[]): [[P, P][], P[]] => {
+    const remaining = [...players];
+    const byes = remaining.length % 2 !== 0 ? [remaining.shift()!] : [];
+    const pairs: [P, P][] = [];
+    while (remaining.length > 0) {
+      pairs.push([remaining.shift()!, remaining.shift()!]);
+    }
+    return [pairs, byes];
+  };
+
+  let survivors: P[] = [];
+
+  for (const newcomers of winnersBracketLosers.rounds) {
+    // Everyone who lost in this round withdrew
+    if (newcomers.length === 0) continue;
+
+    while (survivors.length > Math.max(newcomers.length, 1)) {
+      const next = playRound(...pairAmongThemselves(survivors));
+      if (!next) return { matches };
+      survivors = next;
+    }
+
+    const dropIn = Math.min(survivors.length, newcomers.length);
+    const [extraPairs, extraByes] = pairAmongThemselves(newcomers.slice(dropIn));
+    const pairs: [P, P][] = [
+      ...survivors.slice(0, dropIn).map((survivor, i) => [survivor, newcomers[i]] as [P, P]),
+      ...extraPairs
+    ];
+    const next = playRound(pairs, [...survivors.slice(dropIn), ...extraByes]);
+    if (!next) return { matches };
+    survivors = next;
+  }
+
+  if (!winnersBracketLosers.complete) return { matches };
+
+  while (survivors.length > 1) {
+    const next = playRound(...pairAmongThemselves(survivors));
+    if (!next) return { matches };
+    survivors = next;
+  }
+
+  return { matches, complete: true, winner: survivors[0], bronze: lastLoser };
+}
+
+export interface GrandFinal<P extends Participant> {
+  matches: KnockoutMatch<P>[];
+  champion?: P;
+  runnerUp?: P;
+}
+
+// Winners-bracket champion against losers-bracket winner. The winners-bracket
+// champion has not lost yet, so if they lose the grand final it is replayed,
+// unless they lost it by forfeit.
+export function createGrandFinal<P extends Participant>(
+  winnersChampion: P | undefined,
+  losersWinner: P | undefined,
+  results: MatchResult[]
+): GrandFinal<P> {
+  if (!winnersChampion || !losersWinner) return { matches: [] };
+
+  const matches: KnockoutMatch<P>[] = [];
+  for (const [id, stage] of [['grand-final', 'Grand Final'], ['grand-final-reset', 'Grand Final (Reset)']]) {
+    const result = findResult(results, id);
+    const winner = winnerOf(result, winnersChampion, losersWinner);
+    matches.push({
+      id,
+      round: matches.length + 1,
+      player1: winnersChampion,
+      player2: losersWinner,
+      jackets: BOUT_JACKETS,
+      winner_id: winner?.id,
+      stage
+    });
+
+    if (!winner) return { matches };
+    if (winner.id === winnersChampion.id || id === 'grand-final-reset' || isForfeit(result?.win_type)) {
+      return { matches, champion: winner, runnerUp: winner.id === winnersChampion.id ? losersWinner : winnersChampion };
+    }
+  }
+
+  return { matches };
+}
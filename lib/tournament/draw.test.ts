@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { isDrawReproducible, makeDraw, replayDraw } from './draw';
+import { nextPowerOfTwo } from './positions';
+import type { Participant } from './types';
+
+function entrants(count: number, seeds: Record<number, number> = {}): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${String(i).padStart(2, '0')}`,
+    name: `Athlete ${i}`,
+    association: `Club ${i % 4}`,
+    seed_number: seeds[i] ?? null
+  }));
+}
+
+function headsOf(draw: ReturnType<typeof makeDraw>, poolIndex: number): string[] {
+  return draw.pools[poolIndex].groups.map(group => group.player_ids[0]);
+}
+
+describe('makeDraw', () => {
+  it('gives the same draw for the same seed and entrants, in any order', () => {
+    const players = entrants(13, { 0: 1, 5: 2 });
+    const draw = makeDraw(players, 'seed-1');
+
+    expect(makeDraw([...players].reverse(), 'seed-1')).toEqual(draw);
+    expect(makeDraw(players, 'seed-2').pools).not.toEqual(draw.pools);
+  });
+
+  it('is replayed from its stored seed and entrants', () => {
+    for (const system of ['pools_knockout', 'single_elimination', 'round_robin'] as const) {
+      const draw = makeDraw(entrants(system === 'round_robin' ? 5 : 11), 'replay', system);
+
+      expect(replayDraw(draw)).toEqual(draw);
+      expect(isDrawReproducible(draw)).toBe(true);
+    }
+  });
+
+  it('notices a draw that was changed after it was made', () => {
+    const draw = makeDraw(entrants(8), 'edited');
+    const edited = structuredClone(draw);
+    const [first, second] = edited.pools[0].groups;
+    [first.player_ids, second.player_ids] = [second.player_ids, first.player_ids];
+
+    expect(isDrawReproducible(draw)).toBe(true);
+    expect(isDrawReproducible(edited)).toBe(false);
+  });
+
+  it('hands out byes only to fill each pool to a power of two', () => {
+    for (let count = 2; count <= 33; count++) {
+      const draw = makeDraw(entrants(count), `byes-${count}`);
+      const poolSizes = [Math.ceil(count / 2), Math.floor(count / 2)];
+
+      draw.pools.forEach((pool, poolIndex) => {
+        const size = poolSizes[poolIndex];
+        const byes = pool.groups.filter(group => group.player_ids.length === 1).length;
+
+        expect(pool.groups.every(group => group.player_ids.length >= 1 && group.player_ids.length <= 2)).toBe(true);
+        expect(byes).toBe(size <= 1 ? size : nextPowerOfTwo(size) - size);
+      });
+
+      const drawn = draw.pools.flatMap(pool => pool.groups.flatMap(group => group.player_ids));
+      expect([...drawn].sort()).toEqual(entrants(count).map(player => player.id));
+    }
+  });
+
+  it('puts seed 1 at the top of Pool A and seed 2 at the bottom of Pool B', () => {
+    for (const count of [8, 12, 16, 21]) {
+      const draw = makeDraw(entrants(count, { 3: 1, 7: 2 }), `seeds-${count}`);
+
+      expect(headsOf(draw, 0)[0]).toBe('p03');
+      expect(headsOf(draw, 1)[headsOf(draw, 1).length - 1]).toBe('p07');
+    }
+  });
+
+  it('draws seeds 3 and 4 into the bottom of Pool A and the top of Pool B', () => {
+    const draw = makeDraw(entrants(16, { 0: 1, 1: 2, 2: 3, 3: 4 }), 'third-and-fourth');
+    const bottomOfA = headsOf(draw, 0).slice(2);
+    const topOfB = headsOf(draw, 1).slice(0, 2);
+    const quarters = [bottomOfA, topOfB].map(heads => heads.find(id => id === 'p02' || id === 'p03'));
+
+    expect(quarters.sort()).toEqual(['p02', 'p03']);
+  });
+
+  it('gives the byes to the seeds first', () => {
+    const draw = makeDraw(entrants(12, { 4: 1, 9: 2 }), 'seeded-byes');
+    const byes = draw.pools.flatMap(pool => pool.groups.filter(group => group.player_ids.length === 1));
+
+    expect(byes.map(group => group.player_ids[0])).toEqual(expect.arrayContaining(['p04', 'p09']));
+  });
+});
@@ -0,0 +1,111 @@
+import { generatePools } from './pools';
+import { seededRandom, shuffle } from './random';
+import { ROUND_ROBIN_POOL } from './round-robin';
+import type { CompetitionSystem, Participant, Pool } from './types';
+
+// Serialised form of a draw as stored in event_draws / sub_event_draws.
+// Groups only keep player IDs so the bracket can be rebuilt from current
+// participant data; the entrants snapshot and seed are kept for the audit.
+export interface DrawGroup {
+  name: string;
+  player_ids: string[];
+}
+
+export interface DrawPool {
+  name: string;
+  groups: DrawGroup[];
+  knockout: string[];
+}
+
+export interface DrawEntrant {
+  id: string;
+  name: string;
+  association: string;
+  seed_number: number | null;
+}
+
+export interface Draw {
+  seed: string;
+  // Absent on draws made before round robins existed
+  system?: CompetitionSystem;
+  // Participants in the order they were fed into the draw
+  entrants: DrawEntrant[];
+  pools: DrawPool[];
+}
+
+function serializePools<P extends Participant>(pools: Pool<P>[]): DrawPool[] {
+  return pools.map(pool => ({
+    name: pool.name,
+    groups: pool.groups.map(group => ({
+      name: group.name,
+      player_ids: group.players.map(player => player.id)
+    })),
+    knockout: [...pool.knockout]
+  }));
+}
+
+// A round robin is stored as a single group holding every athlete in drawn
+// order, which fixes the bout schedule.
+function drawRoundRobin<P extends Participant>(entrants: P[], random: () => number): Pool<P>[] {
+  return [{
+    name: ROUND_ROBIN_POOL,
+    groups: [{ name: '1', players: shuffle(entrants, random) }],
+    knockout: []
+  }];
+}
+
+export function getDrawSystem(draw: Draw): CompetitionSystem {
+  return draw.system || 'pools_knockout';
+}
+
+// Makes a reproducible draw. Participants are put in a canonical order (by ID)
+// first, so the same seed and the same entrants always give the same pools.
+export function makeDraw<P extends Participant>(
+  participants: P[],
+  seed: string,
+  system: CompetitionSystem = 'pools_knockout'
+): Draw {
+  const entrants = participants
+    .map(({ id, name, association, seed_number }) => ({ id, name, association, seed_number: seed_number ?? null }))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const random = seededRandom(seed);
+
+  return {
+    seed,
+    system,
+    entrants,
+    pools: serializePools(system === 'round_robin' ? drawRoundRobin(entrants, random) : generatePools(entrants, random))
+  };
+}
+
+// Re-runs a stored draw from its seed and entrants snapshot
+export function replayDraw(draw: Draw): Draw {
+  return makeDraw(draw.entrants, draw.seed, getDrawSystem(draw));
+}
+
+export function isDrawReproducible(draw: Draw): boolean {
+  return JSON.stringify(replayDraw(draw).pools) === JSON.stringify(draw.pools);
+}
+
+// Rebuilds pools from a stored draw. Players that are no longer participants
+// are dropped; their group opponent then qualifies automatically.
+export function hydrateDraw<P extends Participant>(draw: Draw, participants: P[]): Pool<P>[] {
+  const byId = new Map(participants.map(player => [player.id, player]));
+
+  return draw.pools.map(pool => ({
+    name: pool.name,
+    groups: pool.groups.map(group => ({
+      name: group.name,
+      players: group.player_ids
+        .map(id => byId.get(id))
+        .filter((player): player is P => player !== undefined)
+    })),
+    knockout: [...pool.knockout]
+  }));
+}
+
+// Participants that were added after the draw was made
+export function getUndrawnParticipants<P extends Participant>(draw: Draw, participants: P[]): P[] {
+  const drawn = new Set(draw.pools.flatMap(pool => pool.groups.flatMap(group => group.player_ids)));
+  return participants.filter(player => !drawn.has(player.id));
+}
@@ -0,0 +1,25 @@
+// Framework-free tournament engine shared by the main event and sub-event pages.
+// Everything here is pure: participants and recorded results in, bracket state out.
+
+export * from './types';
+export * from './random';
+export * from './positions';
+export * from './pools';
+export * from './seeding';
+export * from './separation';
+export * from './draw';
+export * from './knockout';
+export * from './repechage';
+export * from './bracket';
+export * from './double-elimination';
+export * from './round-robin';
+export * from './corrections';
+export * from './stages';
+export * from './scoring';
+export * from './jackets';
+export * from './console';
+export * from './timing';
+export * from './age-groups';
+export * from './weigh-in';
+export * from './categories';
+export * from './systems';
@@ -0,0 +1,15 @@
+import type { Athlete, BoutJackets, Jacket, KnockoutMatch } from './types';
+
+// The first-called athlete of every bout wears blue, the other green
+export const BOUT_JACKETS: BoutJackets = { player1: 'blue', player2: 'green' };
+
+export const JACKET_LABELS: Record<Jacket, string> = {
+  blue: 'Blue',
+  green: 'Green'
+};
+
+// Jacket of one side of a bout; group bouts, which are not KnockoutMatches,
+// follow the same call order
+export function jacketOf(athlete: Athlete, match?: Pick<KnockoutMatch, 'jackets'>): Jacket {
+  return (match?.jackets || BOUT_JACKETS)[athlete];
+}
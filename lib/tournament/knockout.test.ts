@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { buildBracket, getBoutsToCall } from './bracket';
+import { hydrateDraw, makeDraw } from './draw';
+import { createKnockoutMatchesForPool, isDoubleWalkover } from './knockout';
+import type { CompetitionSystem, KnockoutMatch, MatchResult, Participant } from './types';
+
+function entrants(count: number): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${String(i).padStart(2, '0')}`,
+    name: `Athlete ${i}`,
+    association: `Club ${i % 4}`,
+    seed_number: null
+  }));
+}
+
+function win(match: KnockoutMatch<Participant>, winner = match.player1!): MatchResult {
+  return { match_stage: match.id, player1_id: match.player1!.id, player2_id: match.player2!.id, winner_id: winner.id };
+}
+
+// Plays a pool knockout to the end, the first athlete winning every bout that
+// is fought
+function playKnockout(slots: (Participant | undefined)[]) {
+  const results: MatchResult[] = [];
+  for (;;) {
+    const knockout = createKnockoutMatchesForPool(slots, 'Pool A', results);
+    const open = knockout.matches.find(match =>
+      match.player2 && !match.winner_id && !isDoubleWalkover(match.player1, match.player2)
+    );
+    if (!open) return { knockout, results };
+    results.push(win(open));
+  }
+}
+
+// Plays the whole bracket, the first athlete winning every bout
+function playBracket(players: Participant[], system: CompetitionSystem, withdraw: (bout: KnockoutMatch<Participant>) => boolean) {
+  const pools = hydrateDraw(makeDraw(players, 'bracket', system), players);
+  const results: MatchResult[] = [];
+  for (let i = 0; i < 100; i++) {
+    const bracket = buildBracket(pools, results, system);
+    const [bout] = getBoutsToCall(bracket, results);
+    if (!bout) return bracket;
+    if (withdraw(bout)) {
+      bout.player1!.withdrawn = true;
+      bout.player2!.withdrawn = true;
+      continue;
+    }
+    results.push(win(bout));
+  }
+  throw new Error('The bracket did not finish');
+}
+
+describe('createKnockoutMatchesForPool', () => {
+  it('keeps the match IDs results were stored under', () => {
+    expect(playKnockout(entrants(4)).knockout.matches.map(match => match.id)).toEqual([
+      'knockout-1.1-match0',
+      'knockout-1.1-match1',
+      'knockout-1.3-match2'
+    ]);
+    expect(playKnockout(entrants(8)).knockout.matches.map(match => match.id).slice(4)).toEqual([
+      'knockout-1.3-match4',
+      'knockout-1.3-match5',
+      'knockout-1.7-match6'
+    ]);
+  });
+
+  it('picks up a stored result under its original ID', () => {
+    const players = entrants(4);
+    const { results } = playKnockout(players);
+
+    expect(results.map(result => result.match_stage)).toContain('knockout-1.3-match2');
+    expect(createKnockoutMatchesForPool(players, 'Pool A', results).winner).toEqual(players[0]);
+  });
+
+  it('reads a result stored under a legacy ID for the same two athletes', () => {
+    const [a, b, c, d] = entrants(4);
+    const legacy: MatchResult[] = [
+      { match_stage: 'knockout-2.1-match0', player1_id: a.id, player2_id: b.id, winner_id: b.id },
+      { match_stage: 'knockout-2.1-match1', player1_id: c.id, player2_id: d.id, winner_id: c.id },
+      { match_stage: 'knockout-2.3-match2', player1_id: b.id, player2_id: c.id, winner_id: c.id }
+    ];
+    const knockout = createKnockoutMatchesForPool([a, b, c, d], 'Pool A', legacy);
+
+    expect(knockout.matches.map(match => match.winner_id)).toEqual([b.id, c.id, c.id]);
+    expect(knockout.winner).toEqual(c);
+  });
+
+  it('does not take a result under its ID that was between other athletes', () => {
+    const [a, b, c, d] = entrants(4);
+    const results: MatchResult[] = [{ match_stage: 'knockout-1.1-match0', player1_id: c.id, player2_id: d.id, winner_id: c.id }];
+    const knockout = createKnockoutMatchesForPool([a, b, c, d], 'Pool A', results);
+
+    expect(knockout.matches[0].winner_id).toBeUndefined();
+    expect(knockout.matches[1].winner_id).toBe(c.id);
+  });
+
+  it('lets an athlete walk through an empty place', () => {
+    const [a, b, c] = entrants(3);
+    const { knockout } = playKnockout([a, b, c, undefined]);
+
+    expect(knockout.matches.filter(match => !match.player2).map(match => match.player1)).toEqual([c]);
+    expect(knockout.winner).toEqual(a);
+  });
+
+  it('moves nobody on from a double walkover, giving the next opponent a bye', () => {
+    const [a, b, c, d] = entrants(4);
+    const { knockout } = playKnockout([a, b, { ...c, withdrawn: true }, { ...d, withdrawn: true }]);
+
+    expect(knockout.matches[1].stage).toBe('Round 1 Match 2 (Double Walkover)');
+    expect(knockout.complete).toBe(true);
+    expect(knockout.winner).toEqual(a);
+  });
+});
+
+describe('buildBracket with a double walkover', () => {
+  const systems: CompetitionSystem[] = ['pools_knockout', 'single_elimination', 'double_elimination'];
+
+  it.each(systems)('finishes a %s bracket with a double walkover in the group bouts', system => {
+    let withdrawn = false;
+    const bracket = playBracket(entrants(8), system, bout => !withdrawn && (withdrawn = bout.round === 0));
+
+    expect(withdrawn).toBe(true);
+    expect(bracket.champion).toBeDefined();
+  });
+
+  it.each(systems)('finishes a %s bracket with a double walkover in a pool knockout', system => {
+    let withdrawn = false;
+    const bracket = playBracket(entrants(8), system, bout => !withdrawn && (withdrawn = bout.id.startsWith('knockout-')));
+
+    expect(withdrawn).toBe(true);
+    expect(bracket.champion).toBeDefined();
+    expect(bracket.finalMatch).toBeNull();
+  });
+
+  it('crowns nobody when both finalists withdraw', () => {
+    const bracket = playBracket(entrants(8), 'pools_knockout', bout => bout.id === 'final');
+
+    expect(bracket.finalMatch?.stage).toBe('Championship Final (Double Walkover)');
+    expect(bracket.champion).toBeUndefined();
+  });
+});
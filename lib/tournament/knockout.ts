@@ -0,0 +1,198 @@
+import { BOUT_JACKETS } from './jackets';
+import { groupStageId, poolNumber } from './pools';
+import { nextPowerOfTwo } from './positions';
+import type { Group, KnockoutMatch, MatchResult, Participant, Pool } from './types';
+
+export function findResult(results: MatchResult[], matchStage: string): MatchResult | undefined {
+  return results.find(result => result.match_stage === matchStage);
+}
+
+export function winnerOf<P extends Participant>(result: MatchResult | undefined, player1?: P, player2?: P): P | undefined {
+  if (!result?.winner_id) return undefined;
+  if (player1?.id === result.winner_id) return player1;
+  if (player2?.id === result.winner_id) return player2;
+  return undefined;
+}
+
+// A bout between two withdrawn athletes is a double walkover: it is not
+// fought, nobody goes through, and the next opponent gets a bye
+export function isDoubleWalkover<P extends Participant>(player1?: P, player2?: P): boolean {
+  return Boolean(player1?.withdrawn && player2?.withdrawn);
+}
+
+function getGroupWinner<P extends Participant>(pool: Pool<P>, group: Group<P>, results: MatchResult[]): P | undefined {
+  // Single-player groups qualify automatically
+  if (group.players.length === 1) return group.players[0];
+  const result = findResult(results, groupStageId(pool.name, group.name));
+  return winnerOf(result, group.players[0], group.players[1]);
+}
+
+// Group winners decided so far, in the pool's knockout order
+export function getPoolWinners<P extends Participant>(pool: Pool<P>, results: MatchResult[]): P[] {
+  return pool.knockout
+    .map(groupName => pool.groups.find(group => group.name === groupName))
+    .map(group => group && getGroupWinner(pool, group, results))
+    .filter((player): player is P => player !== undefined);
+}
+
+export function isGroupStageComplete<P extends Participant>(pool: Pool<P>, results: MatchResult[]): boolean {
+  return pool.groups.every(group =>
+    group.players.length === 0 ||
+    getGroupWinner(pool, group, results) !== undefined ||
+    isDoubleWalkover(group.players[0], group.players[1])
+  );
+}
+
+export interface PoolKnockout<P extends Participant> {
+  matches: KnockoutMatch<P>[];
+  // Every bout decided; without a winner the last bout was a double walkover
+  complete?: boolean;
+  winner?: P;
+}
+
+// Knockout entrants by bracket position: the winner of each group in the
+// pool's knockout order, padded to a power of two. An undefined entry is an
+// empty place (a withdrawn player, or a draw made before byes were sized to
+// the bracket).
+export function getKnockoutSlots<P extends Participant>(pool: Pool<P>, results: MatchResult[]): (P | undefined)[] {
+  const slots: (P | undefined)[] = pool.knockout
+    .map(groupName => pool.groups.find(group => group.name === groupName))
+    .map(group => group && getGroupWinner(pool, group, results));
+  while (slots.length < nextPowerOfTwo(slots.length)) {
+    slots.push(undefined);
+  }
+  return slots;
+}
+
+// Stored results are keyed by match ID, so knockout bouts keep the IDs they
+// were first saved under. The bout number runs on through the pool; the
+// number before it is not the round but the bouts before the round divided by
+// the bouts in it, plus one (1, 3, 7 ... in a full bracket).
+function knockoutMatchId(number: number, boutsBefore: number, entrants: number, bout: number): string {
+  const roundIndex = boutsBefore === 0 ? 1 : Math.floor(boutsBefore / Math.max(Math.ceil(entrants / 2), 1)) + 1;
+  return `knockout-${number}.${roundIndex}-match${bout}`;
+}
+
+function isBetween<P extends Participant>(result: MatchResult, player1: P, player2: P): boolean {
+  const ids = [result.player1_id, result.player2_id];
+  return ids.includes(player1.id) && ids.includes(player2.id);
+}
+
+// The bout's result under its match ID, or else the result of a knockout bout
+// between the same two athletes stored under another ID. Earlier versions of
+// the pages did not always number the pools the same way (Pool A bouts saved
+// as knockout-2.*), and two athletes meet at most once in a pool's knockout.
+function findKnockoutResult<P extends Participant>(
+  results: MatchResult[],
+  matchId: string,
+  player1: P,
+  player2: P
+): MatchResult | undefined {
+  const stored = findResult(results, matchId);
+  if (winnerOf(stored, player1, player2)) return stored;
+  return results.find(result => result.match_stage.startsWith('knockout-') && isBetween(result, player1, player2)) ?? stored;
+}
+
+// Builds the knockout for one pool round by round, pairing neighbouring
+// bracket positions. Byes are handed out in the draw, so normally every place
+// is filled; an athlete whose opponent's place is empty walks through, shown
+// as a bout without a second player. A round is only paired once every bout
+// of the previous round has a winner, so the pairings never depend on the
+// order results were entered in.
+export function createKnockoutMatchesForPool<P extends Participant>(
+  slots: (P | undefined)[],
+  poolName: string,
+  results: MatchResult[]
+): PoolKnockout<P> {
+  const matches: KnockoutMatch<P>[] = [];
+  const number = poolNumber(poolName);
+  let entrants = [...slots];
+  let round = 1;
+  let bouts = 0;
+
+  while (entrants.length > 1) {
+    const nextRoundPlayers: (P | undefined)[] = [];
+    const boutsBefore = bouts;
+    const present = entrants.filter(Boolean).length;
+    let roundComplete = true;
+
+    for (let i = 0; i < entrants.length; i += 2) {
+      const [player1, player2] = [entrants[i], entrants[i + 1]];
+
+      if (!player1 || !player2) {
+        const walkThrough = player1 || player2;
+        if (walkThrough) {
+          matches.push({
+            id: `knockout-${number}.${round}-bye${i / 2}`,
+            round,
+            position: i / 2,
+            player1: walkThrough,
+            jackets: BOUT_JACKETS,
+            winner_id: walkThrough.id,
+            stage: `Round ${round} Bye`
+          });
+        }
+        nextRoundPlayers.push(walkThrough);
+        continue;
+      }
+
+      const matchId = knockoutMatchId(number, boutsBefore, present, bouts);
+      const winner = winnerOf(findKnockoutResult(results, matchId, player1, player2), player1, player2);
+      const doubleWalkover = !winner && isDoubleWalkover(player1, player2);
+      bouts++;
+
+      matches.push({
+        id: matchId,
+        round,
+        position: i / 2,
+        player1,
+        player2,
+        jackets: BOUT_JACKETS,
+        winner_id: winner?.id,
+        stage: `Round ${round} Match ${bouts}${doubleWalkover ? ' (Double Walkover)' : ''}`
+      });
+
+      if (winner || doubleWalkover) {
+        nextRoundPlayers.push(winner);
+      } else {
+        roundComplete = false;
+      }
+    }
+
+    if (!roundComplete) {
+      return { matches };
+    }
+
+    entrants = nextRoundPlayers;
+    round++;
+  }
+
+  return { matches, complete: true, winner: entrants[0] };
+}
+
+// Whether a knockout entry is a walk-through rather than a bout
+export function isBye<P extends Participant>(match: KnockoutMatch<P>): boolean {
+  return !match.player1 || !match.player2;
+}
+
+// Championship final between the two pool winners
+export function createFinalMatch<P extends Participant>(
+  poolAWinner: P | undefined,
+  poolBWinner: P | undefined,
+  results: MatchResult[]
+): KnockoutMatch<P> | null {
+  if (!poolAWinner || !poolBWinner) return null;
+
+  const result = findResult(results, 'final');
+  const winner = winnerOf(result, poolAWinner, poolBWinner);
+
+  return {
+    id: 'final',
+    round: 1,
+    player1: poolAWinner,
+    player2: poolBWinner,
+    jackets: BOUT_JACKETS,
+    winner_id: winner?.id,
+    stage: !winner && isDoubleWalkover(poolAWinner, poolBWinner) ? 'Championship Final (Double Walkover)' : 'Championship Final'
+  };
+}
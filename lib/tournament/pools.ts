@@ -0,0 +1,83 @@
+import { bracketGroupCount, spreadOrder } from './positions';
+import { drawSeedQuarters, findSeedSlot, getSeededPlayers } from './seeding';
+import { placeBySeparation, type DrawSlots } from './separation';
+import type { Participant, Pool } from './types';
+
+export const POOL_NAMES = ['Pool A', 'Pool B'];
+
+// Pool A groups are numbered 1.x, Pool B groups 2.x
+export function poolNumber(poolName: string): number {
+  return POOL_NAMES.indexOf(poolName) + 1;
+}
+
+// Match stage of the single bout inside a group, e.g. "Pool A-1.2"
+export function groupStageId(poolName: string, groupName: string): string {
+  return `${poolName}-${groupName}`;
+}
+
+// Splits participants into Pool A and Pool B. Each pool is a bracket sized to
+// the next power of two whose first round is the groups of two; the empty
+// places are byes, i.e. single-player groups whose player walks through to the
+// knockout. Seeded players head their groups in the quarter of the bracket
+// given by the seeding rules and receive the byes first; everyone else is
+// placed so athletes of the same association are kept as far apart as possible.
+export function generatePools<P extends Participant>(
+  participants: P[],
+  random: () => number = Math.random
+): Pool<P>[] {
+  const seeded = getSeededPlayers(participants);
+  const unseeded = participants.filter(player => !seeded.includes(player));
+  const quarters = drawSeedQuarters(seeded.map(player => player.seed_number!), random);
+
+  // Pool A takes the extra player when the number of participants is odd
+  const midPoint = Math.ceil(participants.length / 2);
+  const poolSizes = [midPoint, participants.length - midPoint];
+  const slots: DrawSlots<P> = poolSizes.map(size =>
+    Array.from({ length: bracketGroupCount(size) }, () => new Array<P | undefined>(size === 1 ? 1 : 2).fill(undefined))
+  );
+
+  // Seeds first, as group heads in their quarter
+  const unplacedSeeds: P[] = [];
+  for (const player of seeded) {
+    const heads = slots.map(groups => groups.map(group => group[0]));
+    const slot = findSeedSlot(heads, quarters.get(player.seed_number!)!);
+    if (slot) {
+      slots[slot[0]][slot[1]][0] = player;
+    } else {
+      unplacedSeeds.push(player);
+    }
+  }
+
+  // Byes go to the seeded groups in seed order, then spread over the bracket
+  // (from the top of Pool A and from the bottom of Pool B, mirroring the seeds)
+  slots.forEach((groups, poolIndex) => {
+    const byes = groups.length * 2 - poolSizes[poolIndex];
+    if (groups.length < 2 || byes <= 0) return;
+
+    const seededGroups = seeded
+      .map(player => groups.findIndex(group => group[0] === player))
+      .filter(index => index >= 0);
+    const spread = spreadOrder(groups.length).map(i => (poolIndex === 0 ? i : groups.length - 1 - i));
+    const byeGroups = [...seededGroups, ...spread.filter(i => !seededGroups.includes(i))].slice(0, byes);
+
+    for (const index of byeGroups) {
+      groups[index] = groups[index].slice(0, 1);
+    }
+  });
+
+  placeBySeparation(slots, [...unplacedSeeds, ...unseeded], random);
+
+  return POOL_NAMES.map((poolName, poolIndex) => {
+    const groups = slots[poolIndex].map((players, groupIndex) => ({
+      // Hierarchical group name (e.g., 1.1, 1.2 for Pool A; 2.1, 2.2 for Pool B)
+      name: `${poolIndex + 1}.${groupIndex + 1}`,
+      players: players.filter((player): player is P => player !== undefined)
+    }));
+
+    return {
+      name: poolName,
+      groups,
+      knockout: groups.map(group => group.name)
+    };
+  });
+}
@@ -0,0 +1,48 @@
+// Bracket geometry inside a pool. Group winners enter the pool knockout in
+// group order, so group index i sits at position i of a bracket whose size is
+// the next power of two.
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+// 0 for the top quarter of the bracket (top half of the pool), 1 for the bottom
+export function quarterOf(groupIndex: number, groupCount: number): number {
+  return groupIndex < Math.max(nextPowerOfTwo(groupCount) / 2, 1) ? 0 : 1;
+}
+
+// Knockout round in which the winners of two groups of the same pool can
+// first meet (0 when it is the same group, i.e. the group bout itself)
+export function meetingRound(groupA: number, groupB: number): number {
+  let diff = groupA ^ groupB;
+  let round = 0;
+  while (diff > 0) {
+    round++;
+    diff >>= 1;
+  }
+  return round;
+}
+
+// Number of round-one groups (pairs) in a pool bracket sized to the next power
+// of two; the empty places are byes
+export function bracketGroupCount(poolSize: number): number {
+  return poolSize <= 1 ? poolSize : nextPowerOfTwo(poolSize) / 2;
+}
+
+// Group indexes of a power-of-two bracket spread as evenly as possible: the
+// top, then the top of the other half, then of the remaining quarters, and so
+// on (bit-reversal order). Byes handed out in this order never meet each other.
+export function spreadOrder(groupCount: number): number[] {
+  const bits = Math.log2(nextPowerOfTwo(groupCount));
+  return Array.from({ length: groupCount }, (_, i) => i)
+    .map(i => {
+      let reversed = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        if (i & (1 << bit)) reversed |= 1 << (bits - 1 - bit);
+      }
+      return reversed;
+    })
+    .filter(i => i < groupCount);
+}
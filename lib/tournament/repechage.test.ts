@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createKnockoutMatchesForPool } from './knockout';
+import { groupStageId } from './pools';
+import { createRepechageForPool, getLosersToFinalist } from './repechage';
+import type { MatchResult, Participant, Pool } from './types';
+
+function entrants(count: number): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${i}`,
+    name: `Athlete ${i}`,
+    association: `Club ${i}`,
+    seed_number: null
+  }));
+}
+
+function result(matchStage: string, player1: Participant, player2: Participant, winner: Participant): MatchResult {
+  return { match_stage: matchStage, player1_id: player1.id, player2_id: player2.id, winner_id: winner.id };
+}
+
+describe('getLosersToFinalist', () => {
+  it('lists the group loser, then each knockout loser, in the order they lost', () => {
+    const [a, b, c, d, e, f, g, h] = entrants(8);
+    const pool: Pool<Participant> = {
+      name: 'Pool A',
+      groups: [
+        { name: '1.1', players: [a, b] },
+        { name: '1.2', players: [c, d] },
+        { name: '1.3', players: [e, f] },
+        { name: '1.4', players: [g, h] }
+      ],
+      knockout: ['1.1', '1.2', '1.3', '1.4']
+    };
+    const results = [
+      result(groupStageId('Pool A', '1.1'), a, b, a),
+      result(groupStageId('Pool A', '1.2'), c, d, c),
+      result(groupStageId('Pool A', '1.3'), e, f, e),
+      result(groupStageId('Pool A', '1.4'), g, h, g)
+    ];
+    // a beats c, e beats g, then a beats e in the pool final
+    const slots = [a, c, e, g];
+    for (const winner of [a, e, a]) {
+      const open = createKnockoutMatchesForPool(slots, 'Pool A', results).matches.find(match => !match.winner_id)!;
+      results.push(result(open.id, open.player1!, open.player2!, winner));
+    }
+    const knockout = createKnockoutMatchesForPool(slots, 'Pool A', results);
+
+    expect(getLosersToFinalist(pool, knockout.matches, a, results).map(loser => loser.player)).toEqual([b, c, e]);
+    expect(getLosersToFinalist(pool, knockout.matches, a, results)[0].matchStage).toBe('Pool A-1.1');
+  });
+});
+
+describe('createRepechageForPool', () => {
+  it('gives a single loser bronze without a bout', () => {
+    const [a] = entrants(1);
+
+    expect(createRepechageForPool([a], 'Pool A', [])).toEqual({ matches: [], bronze: a });
+    expect(createRepechageForPool([], 'Pool A', [])).toEqual({ matches: [] });
+  });
+
+  it('sends each bout winner on to the next loser, ending in the bronze-medal bout', () => {
+    const [a, b, c] = entrants(3);
+    const first = createRepechageForPool([a, b, c], 'Pool B', []);
+
+    expect(first.matches.map(match => match.id)).toEqual(['repechage-2-match0']);
+    expect(first.bronze).toBeUndefined();
+
+    const results = [result('repechage-2-match0', a, b, b)];
+    const second = createRepechageForPool([a, b, c], 'Pool B', results);
+    expect(second.matches.map(match => [match.id, match.stage])).toEqual([
+      ['repechage-2-match0', 'Repechage 1'],
+      ['bronze-2', 'Bronze Medal Bout']
+    ]);
+    expect(second.matches[1].player1).toBe(b);
+    expect(second.matches[1].player2).toBe(c);
+
+    results.push(result('bronze-2', b, c, c));
+    expect(createRepechageForPool([a, b, c], 'Pool B', results).bronze).toBe(c);
+  });
+
+  it('lets the next loser through unopposed after a double walkover', () => {
+    const [a, b, c] = entrants(3);
+    const repechage = createRepechageForPool([{ ...a, withdrawn: true }, { ...b, withdrawn: true }, c], 'Pool A', []);
+
+    expect(repechage.matches.map(match => match.stage)).toEqual(['Repechage 1 (Double Walkover)']);
+    expect(repechage.bronze).toBe(c);
+  });
+});
@@ -0,0 +1,91 @@
+import { BOUT_JACKETS } from './jackets';
+import { findResult, isDoubleWalkover, winnerOf } from './knockout';
+import { groupStageId, poolNumber } from './pools';
+import type { KnockoutMatch, MatchResult, Participant, Pool } from './types';
+
+export interface FinalistLoser<P extends Participant> {
+  player: P;
+  // The bout they lost to the finalist
+  matchStage: string;
+}
+
+// Athletes who lost to the pool winner (a finalist), in the order they lost:
+// the group bout first, then each knockout round.
+export function getLosersToFinalist<P extends Participant>(
+  pool: Pool<P>,
+  knockoutMatches: KnockoutMatch<P>[],
+  finalist: P,
+  results: MatchResult[]
+): FinalistLoser<P>[] {
+  const losers: FinalistLoser<P>[] = [];
+
+  const group = pool.groups.find(g => g.players.some(player => player.id === finalist.id));
+  if (group && group.players.length === 2) {
+    const matchStage = groupStageId(pool.name, group.name);
+    if (findResult(results, matchStage)?.winner_id === finalist.id) {
+      losers.push({ player: group.players.find(player => player.id !== finalist.id)!, matchStage });
+    }
+  }
+
+  for (const match of [...knockoutMatches].sort((a, b) => a.round - b.round)) {
+    if (match.winner_id !== finalist.id) continue;
+    const loser = match.player1?.id === finalist.id ? match.player2 : match.player1;
+    if (loser) losers.push({ player: loser, matchStage: match.id });
+  }
+
+  return losers;
+}
+
+export interface PoolRepechage<P extends Participant> {
+  matches: KnockoutMatch<P>[];
+  bronze?: P;
+}
+
+// Kurash awards two bronzes, one per half. Everyone who lost to a finalist
+// fights a repechage ladder from the earliest round: each bout winner meets
+// the next loser, and the last bout, against the athlete who lost latest,
+// is the bronze-medal bout. A single loser takes bronze without a bout. After
+// a double walkover nobody goes on, so the next loser goes through unopposed.
+export function createRepechageForPool<P extends Participant>(
+  losers: P[],
+  poolName: string,
+  results: MatchResult[]
+): PoolRepechage<P> {
+  const matches: KnockoutMatch<P>[] = [];
+  const number = poolNumber(poolName);
+
+  if (losers.length === 0) {
+    return { matches };
+  }
+
+  let current: P | undefined = losers[0];
+  for (let i = 1; i < losers.length; i++) {
+    if (!current) {
+      current = losers[i];
+      continue;
+    }
+
+    const isBronzeBout = i === losers.length - 1;
+    const matchId = isBronzeBout ? `bronze-${number}` : `repechage-${number}-match${i - 1}`;
+    const result = findResult(results, matchId);
+    const winner: P | undefined = winnerOf(result, current, losers[i]);
+    const doubleWalkover = !winner && isDoubleWalkover(current, losers[i]);
+
+    matches.push({
+      id: matchId,
+      round: i,
+      player1: current,
+      player2: losers[i],
+      jackets: BOUT_JACKETS,
+      winner_id: winner?.id,
+      stage: `${isBronzeBout ? 'Bronze Medal Bout' : `Repechage ${i}`}${doubleWalkover ? ' (Double Walkover)' : ''}`
+    });
+
+    if (!winner && !doubleWalkover) {
+      return { matches };
+    }
+    current = winner;
+  }
+
+  return { matches, bronze: current };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { createRoundRobinMatches, getRoundRobinStandings, isRoundRobinComplete } from './round-robin';
+import type { KnockoutMatch, MatchResult, Participant } from './types';
+
+function entrants(count: number): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${i}`,
+    name: `Athlete ${i}`,
+    association: `Club ${i}`,
+    seed_number: null
+  }));
+}
+
+// A win on technical points; the loser scored none
+function win(match: KnockoutMatch<Participant>, winner: Participant, points = 0): MatchResult {
+  return {
+    match_stage: match.id,
+    player1_id: match.player1!.id,
+    player2_id: match.player2!.id,
+    winner_id: winner.id,
+    player1_score: match.player1 === winner ? points : 0,
+    player2_score: match.player2 === winner ? points : 0
+  };
+}
+
+// The bout between two athletes, in either order
+function between(matches: KnockoutMatch<Participant>[], a: Participant, b: Participant) {
+  return matches.find(match =>
+    (match.player1 === a && match.player2 === b) || (match.player1 === b && match.player2 === a)
+  )!;
+}
+
+describe('createRoundRobinMatches', () => {
+  it('pairs everyone with everyone once, nobody twice in a round', () => {
+    for (let count = 2; count <= 5; count++) {
+      const players = entrants(count);
+      const matches = createRoundRobinMatches(players, []);
+      const pairs = matches.map(match => [match.player1!.id, match.player2!.id].sort().join('-'));
+
+      expect(matches).toHaveLength((count * (count - 1)) / 2);
+      expect(new Set(pairs).size).toBe(matches.length);
+      for (const round of Array.from(new Set(matches.map(match => match.round)))) {
+        const fighting = matches.filter(match => match.round === round).flatMap(match => [match.player1, match.player2]);
+        expect(new Set(fighting).size).toBe(fighting.length);
+      }
+    }
+  });
+
+  it('rests one athlete each round with an odd number of entrants', () => {
+    const players = entrants(5);
+    const matches = createRoundRobinMatches(players, []);
+    const resting = [1, 2, 3, 4, 5].map(round => {
+      const fighting = new Set(matches.filter(match => match.round === round).flatMap(match => [match.player1, match.player2]));
+      return players.filter(player => !fighting.has(player));
+    });
+
+    expect(resting.every(rest => rest.length === 1)).toBe(true);
+    expect(new Set(resting.map(([player]) => player)).size).toBe(5);
+  });
+
+  it('numbers the bouts by round and picks up their results', () => {
+    const players = entrants(3);
+    const [first] = createRoundRobinMatches(players, []);
+
+    expect(first.id).toBe('round-robin-1.1');
+    expect(createRoundRobinMatches(players, [win(first, first.player2!)])[0].winner_id).toBe(first.player2!.id);
+  });
+});
+
+describe('getRoundRobinStandings', () => {
+  it('ranks by wins, then head-to-head, then technical points', () => {
+    const [a, b, c, d] = entrants(4);
+    const players = [a, b, c, d];
+    const matches = createRoundRobinMatches(players, []);
+    // a, b and c win two each; among them a beat b, b beat c and c beat a, so
+    // technical points decide
+    const results = [
+      win(between(matches, a, b), a, 5),
+      win(between(matches, b, c), b, 1),
+      win(between(matches, c, a), c, 10),
+      win(between(matches, a, d), a),
+      win(between(matches, b, d), b),
+      win(between(matches, c, d), c)
+    ];
+    const standings = getRoundRobinStandings(players, createRoundRobinMatches(players, results), results);
+
+    expect(standings.map(standing => standing.player)).toEqual([c, a, b, d]);
+    expect(standings.map(standing => standing.rank)).toEqual([1, 2, 3, 4]);
+    expect(standings[3]).toMatchObject({ bouts: 3, wins: 0, losses: 3 });
+  });
+
+  it('puts the head-to-head winner first when wins are level', () => {
+    const [a, b, c] = entrants(3);
+    const players = [a, b, c];
+    const matches = createRoundRobinMatches(players, []);
+    const results = [win(between(matches, b, a), b), win(between(matches, a, c), a, 10)];
+    const standings = getRoundRobinStandings(players, createRoundRobinMatches(players, results), results);
+
+    expect(standings.map(standing => standing.player)).toEqual([b, a, c]);
+  });
+
+  it('shares a rank between athletes level on everything', () => {
+    const [a, b, c] = entrants(3);
+    const players = [a, b, c];
+    const standings = getRoundRobinStandings(players, createRoundRobinMatches(players, []), []);
+
+    expect(standings.map(standing => standing.rank)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('isRoundRobinComplete', () => {
+  it('needs every bout decided except double walkovers', () => {
+    const [a, b, c] = entrants(3);
+    const players = [a, { ...b, withdrawn: true }, { ...c, withdrawn: true }];
+    const matches = createRoundRobinMatches(players, []);
+    const results = matches
+      .filter(match => match.player1 === a || match.player2 === a)
+      .map(match => win(match, a));
+
+    expect(isRoundRobinComplete(matches)).toBe(false);
+    expect(isRoundRobinComplete(createRoundRobinMatches(players, results))).toBe(true);
+  });
+});
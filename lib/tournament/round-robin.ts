@@ -0,0 +1,125 @@
+import { BOUT_JACKETS } from './jackets';
+import { findResult, isDoubleWalkover, winnerOf } from './knockout';
+import type { KnockoutMatch, MatchResult, Participant } from './types';
+
+// Round robin (Nordic system) for small categories: everyone meets everyone
+// once and the standings decide the medals.
+export const ROUND_ROBIN_MIN = 2;
+export const ROUND_ROBIN_MAX = 5;
+
+export const ROUND_ROBIN_POOL = 'Round Robin';
+
+export function roundRobinStageId(round: number, bout: number): string {
+  return `round-robin-${round}.${bout}`;
+}
+
+// Every pairing, scheduled with the circle method so nobody fights twice in a
+// row where it can be avoided. Players keep their drawn order; with an odd
+// number of entrants one athlete rests each round.
+export function createRoundRobinMatches<P extends Participant>(players: P[], results: MatchResult[]): KnockoutMatch<P>[] {
+  const slots: (P | undefined)[] = players.length % 2 === 0 ? [...players] : [...players, undefined];
+  const matches: KnockoutMatch<P>[] = [];
+
+  for (let round = 1; round < slots.length; round++) {
+    let bout = 0;
+    for (let i = 0; i < slots.length / 2; i++) {
+      const player1 = slots[i];
+      const player2 = slots[slots.length - 1 - i];
+      if (!player1 || !player2) continue;
+
+      bout++;
+      const id = roundRobinStageId(round, bout);
+      matches.push({
+        id,
+        round,
+        player1,
+        player2,
+        jackets: BOUT_JACKETS,
+        winner_id: winnerOf(findResult(results, id), player1, player2)?.id,
+        stage: `Round ${round} - Bout ${bout}`
+      });
+    }
+    // Keep the first slot fixed and rotate the rest clockwise
+    slots.splice(1, 0, slots.pop());
+  }
+
+  return matches;
+}
+
+export interface Standing<P extends Participant = Participant> {
+  player: P;
+  rank: number;
+  bouts: number;
+  wins: number;
+  losses: number;
+  technicalPoints: number;
+}
+
+function pointsFor(result: MatchResult | undefined, playerId: string): number {
+  if (!result) return 0;
+  if (result.player1_id === playerId) return result.player1_score ?? 0;
+  if (result.player2_id === playerId) return result.player2_score ?? 0;
+  return 0;
+}
+
+// Ranks athletes by wins, then head-to-head wins among the athletes still
+// level, then technical points. Athletes level on all three share a rank.
+export function getRoundRobinStandings<P extends Participant>(
+  players: P[],
+  matches: KnockoutMatch<P>[],
+  results: MatchResult[]
+): Standing<P>[] {
+  const decided = matches.filter(match => match.winner_id);
+
+  const standings = players.map(player => {
+    const bouts = decided.filter(match => match.player1?.id === player.id || match.player2?.id === player.id);
+    return {
+      player,
+      rank: 0,
+      bouts: bouts.length,
+      wins: bouts.filter(match => match.winner_id === player.id).length,
+      losses: bouts.filter(match => match.winner_id !== player.id).length,
+      technicalPoints: bouts.reduce((sum, match) => sum + pointsFor(findResult(results, match.id), player.id), 0)
+    };
+  });
+
+  const headToHead = (player: P, level: Standing<P>[]) => {
+    const ids = new Set(level.map(standing => standing.player.id));
+    return decided.filter(match =>
+      match.winner_id === player.id &&
+      ids.has(match.player1?.id || '') &&
+      ids.has(match.player2?.id || '')
+    ).length;
+  };
+
+  // Group by wins first; head-to-head only counts bouts between the tied athletes
+  const byWins = new Map<number, Standing<P>[]>();
+  for (const standing of standings) {
+    byWins.set(standing.wins, [...(byWins.get(standing.wins) || []), standing]);
+  }
+
+  const ordered = Array.from(byWins.entries())
+    .sort(([a], [b]) => b - a)
+    .flatMap(([, level]) => {
+      const h2h = new Map(level.map(standing => [standing.player.id, headToHead(standing.player, level)]));
+      return [...level].sort((a, b) =>
+        (h2h.get(b.player.id)! - h2h.get(a.player.id)!) ||
+        (b.technicalPoints - a.technicalPoints)
+      ).map(standing => ({ standing, h2h: h2h.get(standing.player.id)! }));
+    });
+
+  return ordered.map(({ standing, h2h }, index) => {
+    const previous = ordered[index - 1];
+    const level = previous &&
+      previous.standing.wins === standing.wins &&
+      previous.h2h === h2h &&
+      previous.standing.technicalPoints === standing.technicalPoints;
+    standing.rank = level ? previous.standing.rank : index + 1;
+    return standing;
+  });
+}
+
+// Decided bouts, plus double walkovers, which nobody fights
+export function isRoundRobinComplete<P extends Participant>(matches: KnockoutMatch<P>[]): boolean {
+  return matches.every(match => match.winner_id || isDoubleWalkover(match.player1, match.player2));
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareScores,
+  deriveWinner,
+  deriveWinType,
+  disqualifiedAthlete,
+  formatPenalties,
+  formatScore,
+  isBoutOver,
+  nextPenalty,
+  penaltiesOf,
+  tallyScores,
+  technicalPoints
+} from './scoring';
+import type { BoutEvent, BoutScore } from './types';
+
+function score(halol: number, yonbosh: number, chala: number): BoutScore {
+  return { halol, yonbosh, chala };
+}
+
+describe('compareScores', () => {
+  it('ranks a Halol over any number of lesser scores', () => {
+    expect(compareScores(score(1, 0, 0), score(0, 5, 9))).toBeGreaterThan(0);
+    expect(compareScores(score(0, 1, 0), score(0, 0, 9))).toBeGreaterThan(0);
+    expect(compareScores(score(0, 1, 2), score(0, 1, 3))).toBeLessThan(0);
+    expect(compareScores(score(0, 1, 1), score(0, 1, 1))).toBe(0);
+  });
+
+  it('does not count two Yonbosh as a Halol', () => {
+    expect(compareScores(score(0, 2, 0), score(1, 0, 0))).toBeLessThan(0);
+    expect(isBoutOver(tallyScores([
+      { athlete: 'player1', score: 'yonbosh' },
+      { athlete: 'player1', score: 'yonbosh' }
+    ]))).toBe(false);
+  });
+});
+
+describe('deriveWinner', () => {
+  it('takes the athlete ahead on the score sheet', () => {
+    const breakdown = tallyScores([
+      { athlete: 'player1', score: 'chala' },
+      { athlete: 'player1', score: 'chala' },
+      { athlete: 'player2', score: 'yonbosh' }
+    ]);
+
+    expect(breakdown.player1).toEqual(score(0, 0, 2));
+    expect(breakdown.player2).toEqual(score(0, 1, 0));
+    expect(deriveWinner(breakdown)).toBe('player2');
+  });
+
+  it('gives no winner while the scores are level', () => {
+    expect(deriveWinner(tallyScores([]))).toBeUndefined();
+    expect(deriveWinner(tallyScores([
+      { athlete: 'player1', score: 'chala' },
+      { athlete: 'player2', score: 'chala' }
+    ]))).toBeUndefined();
+  });
+
+  it('ends the bout on a Halol', () => {
+    const breakdown = tallyScores([{ athlete: 'player2', score: 'halol' }]);
+
+    expect(isBoutOver(breakdown)).toBe(true);
+    expect(deriveWinner(breakdown)).toBe('player2');
+  });
+});
+
+describe('score display', () => {
+  it('shows a Halol alone and lists the lesser scores', () => {
+    expect(formatScore(score(1, 1, 0))).toBe('Halol');
+    expect(formatScore(score(0, 1, 2))).toBe('1 Yonbosh, 2 Chala');
+    expect(formatScore(score(0, 0, 0))).toBe('–');
+  });
+
+  it('counts technical points for round-robin tie-breaks', () => {
+    expect(technicalPoints(score(1, 1, 2))).toBe(17);
+  });
+});
+
+describe('penalties', () => {
+  it('escalates from Tanbeh to Dakki to Girrom and stops there', () => {
+    expect(nextPenalty([])).toBe('tanbeh');
+    expect(nextPenalty(['tanbeh'])).toBe('dakki');
+    expect(nextPenalty(['tanbeh', 'dakki'])).toBe('girrom');
+    expect(nextPenalty(['tanbeh', 'dakki', 'girrom'])).toBe('girrom');
+  });
+
+  it('counts each penalty as a score for the opponent', () => {
+    const events: BoutEvent[] = [
+      { athlete: 'player1', penalty: 'tanbeh' },
+      { athlete: 'player1', penalty: 'dakki' }
+    ];
+    const breakdown = tallyScores(events);
+
+    expect(breakdown.player1).toEqual(score(0, 0, 0));
+    expect(breakdown.player2).toEqual(score(0, 1, 1));
+    expect(penaltiesOf(breakdown, 'player1')).toEqual(['tanbeh', 'dakki']);
+    expect(formatPenalties(penaltiesOf(breakdown, 'player1'))).toBe('Tanbeh, Dakki');
+    expect(penaltiesOf(breakdown, 'player2')).toEqual([]);
+  });
+
+  it('disqualifies an athlete given a Girrom and ends the bout', () => {
+    const breakdown = tallyScores([
+      { athlete: 'player2', score: 'yonbosh' },
+      { athlete: 'player2', penalty: 'girrom' }
+    ]);
+
+    expect(disqualifiedAthlete(breakdown)).toBe('player2');
+    expect(isBoutOver(breakdown)).toBe(true);
+    expect(deriveWinner(breakdown)).toBe('player1');
+    expect(deriveWinType(breakdown)).toBe('disqualification');
+  });
+});
+
+describe('deriveWinType', () => {
+  it('is a technical win when the winner is ahead on their own scores', () => {
+    expect(deriveWinType(tallyScores([
+      { athlete: 'player1', score: 'yonbosh' },
+      { athlete: 'player1', penalty: 'tanbeh' }
+    ]))).toBe('technical');
+  });
+
+  it("is a penalty win when only the opponent's penalties put the winner ahead", () => {
+    expect(deriveWinType(tallyScores([
+      { athlete: 'player1', score: 'chala' },
+      { athlete: 'player2', score: 'chala' },
+      { athlete: 'player2', penalty: 'tanbeh' }
+    ]))).toBe('penalty');
+  });
+});
@@ -0,0 +1,178 @@
+import { findResult } from './knockout';
+import type {
+  Athlete,
+  BoutEvent,
+  BoutOutcome,
+  BoutScore,
+  MatchResult,
+  PenaltyEvent,
+  PenaltyKind,
+  ScoreBreakdown,
+  ScoreKind,
+  WinType
+} from './types';
+
+export const SCORE_LABELS: Record<ScoreKind, string> = {
+  halol: 'Halol',
+  yonbosh: 'Yonbosh',
+  chala: 'Chala'
+};
+
+export const PENALTY_LABELS: Record<PenaltyKind, string> = {
+  tanbeh: 'Tanbeh',
+  dakki: 'Dakki',
+  girrom: 'Girrom'
+};
+
+// Score each penalty gives the opponent
+const PENALTY_SCORES: Record<PenaltyKind, ScoreKind> = {
+  tanbeh: 'chala',
+  dakki: 'yonbosh',
+  girrom: 'halol'
+};
+
+export const WIN_TYPE_LABELS: Record<WinType, string> = {
+  technical: 'Technical',
+  penalty: 'Penalty',
+  disqualification: 'Disqualification',
+  walkover: 'Walkover',
+  medical_withdrawal: 'Medical withdrawal'
+};
+
+// Penalties escalate: the first is a Tanbeh, the second a Dakki and the third
+// a Girrom, which is the limit
+const PENALTY_ORDER: PenaltyKind[] = ['tanbeh', 'dakki', 'girrom'];
+
+// Used for round-robin tie-breaks
+const TECHNICAL_POINTS: Record<ScoreKind, number> = {
+  halol: 10,
+  yonbosh: 5,
+  chala: 1
+};
+
+function emptyScore(): BoutScore {
+  return { halol: 0, yonbosh: 0, chala: 0 };
+}
+
+export function opponentOf(athlete: Athlete): Athlete {
+  return athlete === 'player1' ? 'player2' : 'player1';
+}
+
+export function isPenalty(event: BoutEvent): event is PenaltyEvent {
+  return 'penalty' in event;
+}
+
+// Penalties are counted as scores for the opponent
+export function tallyScores(events: BoutEvent[]): ScoreBreakdown {
+  const breakdown: ScoreBreakdown = { player1: emptyScore(), player2: emptyScore(), events: [...events] };
+  for (const event of events) {
+    if (isPenalty(event)) {
+      breakdown[opponentOf(event.athlete)][PENALTY_SCORES[event.penalty]]++;
+    } else {
+      breakdown[event.athlete][event.score]++;
+    }
+  }
+  return breakdown;
+}
+
+export function penaltiesOf(breakdown: ScoreBreakdown, athlete: Athlete): PenaltyKind[] {
+  return breakdown.events
+    .filter(isPenalty)
+    .filter(event => event.athlete === athlete)
+    .map(event => event.penalty);
+}
+
+// The penalty an athlete receives next, given the ones they already have
+export function nextPenalty(penalties: PenaltyKind[]): PenaltyKind {
+  return PENALTY_ORDER[Math.min(penalties.length, PENALTY_ORDER.length - 1)];
+}
+
+// The athlete given a Girrom, if any
+export function disqualifiedAthlete(breakdown: ScoreBreakdown): Athlete | undefined {
+  return breakdown.events.filter(isPenalty).find(event => event.penalty === 'girrom')?.athlete;
+}
+
+// A Halol ends the bout; Yonbosh never add up to one
+export function hasHalol(score: BoutScore): boolean {
+  return score.halol > 0;
+}
+
+export function isBoutOver(breakdown: ScoreBreakdown): boolean {
+  return hasHalol(breakdown.player1) || hasHalol(breakdown.player2) || !!disqualifiedAthlete(breakdown);
+}
+
+// Positive when a is ahead: Halol first, then Yonbosh, then Chala. Lesser
+// scores never add up to a greater one.
+export function compareScores(a: BoutScore, b: BoutScore): number {
+  return (Number(hasHalol(a)) - Number(hasHalol(b))) ||
+    (a.yonbosh - b.yonbosh) ||
+    (a.chala - b.chala);
+}
+
+// The athlete ahead on the score sheet, or the opponent of a disqualified
+// athlete; undefined while the scores are level
+export function deriveWinner(breakdown: ScoreBreakdown): Athlete | undefined {
+  const disqualified = disqualifiedAthlete(breakdown);
+  if (disqualified) return opponentOf(disqualified);
+
+  const comparison = compareScores(breakdown.player1, breakdown.player2);
+  if (comparison > 0) return 'player1';
+  if (comparison < 0) return 'player2';
+  return undefined;
+}
+
+// Disqualification after a Girrom; a penalty win when the winner is only ahead
+// thanks to scores given for the opponent's penalties; technical otherwise
+export function deriveWinType(breakdown: ScoreBreakdown): WinType {
+  if (disqualifiedAthlete(breakdown)) return 'disqualification';
+  const winner = deriveWinner(breakdown);
+  const onScores = deriveWinner(tallyScores(breakdown.events.filter(event => !isPenalty(event))));
+  return winner && onScores !== winner ? 'penalty' : 'technical';
+}
+
+// The opponent did not fight or could not go on; the loser takes no further
+// part in the sub-event
+export function isForfeit(winType: WinType | null | undefined): boolean {
+  return winType === 'walkover' || winType === 'medical_withdrawal';
+}
+
+// Whether the bout was lost by forfeit. Its loser does not go on to the
+// repechage, the bronze medal or the losers bracket.
+export function lostByForfeit(results: MatchResult[], matchStage: string): boolean {
+  return isForfeit(findResult(results, matchStage)?.win_type);
+}
+
+export function technicalPoints(score: BoutScore): number {
+  return (Object.keys(TECHNICAL_POINTS) as ScoreKind[])
+    .reduce((sum, kind) => sum + score[kind] * TECHNICAL_POINTS[kind], 0);
+}
+
+// e.g. "Halol", "1 Yonbosh, 2 Chala" or "–"
+export function formatScore(score: BoutScore): string {
+  if (score.halol > 0) return SCORE_LABELS.halol;
+  const parts = (['yonbosh', 'chala'] as ScoreKind[])
+    .filter(kind => score[kind] > 0)
+    .map(kind => `${score[kind]} ${SCORE_LABELS[kind]}`);
+  return parts.length > 0 ? parts.join(', ') : '–';
+}
+
+// e.g. "Tanbeh, Dakki"; empty without penalties
+export function formatPenalties(penalties: PenaltyKind[]): string {
+  return penalties.map(penalty => PENALTY_LABELS[penalty]).join(', ');
+}
+
+export function formatScoreLine(breakdown: ScoreBreakdown): string {
+  return `${formatScore(breakdown.player1)} : ${formatScore(breakdown.player2)}`;
+}
+
+// Columns written to sub_event_match_results alongside the winner
+export function toResultFields({ winType, breakdown, log }: BoutOutcome) {
+  return {
+    win_type: winType,
+    player1_score: breakdown ? technicalPoints(breakdown.player1) : null,
+    player2_score: breakdown ? technicalPoints(breakdown.player2) : null,
+    score_breakdown: breakdown,
+    duration_seconds: breakdown?.duration ?? null,
+    console_log: log ?? null
+  };
+}
@@ -0,0 +1,72 @@
+import { quarterOf } from './positions';
+import { shuffle } from './random';
+import type { Participant } from './types';
+
+// Seed numbers beyond this are treated as unseeded
+export const MAX_SEEDS = 8;
+
+// Quarters of the bracket: 0 and 1 are the top and bottom of Pool A,
+// 2 and 3 the top and bottom of Pool B.
+export type Quarter = 0 | 1 | 2 | 3;
+
+export function isSeeded(player: Participant): boolean {
+  return player.seed_number != null && player.seed_number >= 1 && player.seed_number <= MAX_SEEDS;
+}
+
+// Seeded players ordered by seed number; duplicate seed numbers keep the first player
+export function getSeededPlayers<P extends Participant>(participants: P[]): P[] {
+  const bySeed = new Map<number, P>();
+  for (const player of participants) {
+    if (isSeeded(player) && !bySeed.has(player.seed_number!)) {
+      bySeed.set(player.seed_number!, player);
+    }
+  }
+  return Array.from(bySeed.keys()).sort((a, b) => a - b).map(seed => bySeed.get(seed)!);
+}
+
+// Standard seeding: seed 1 at the top of Pool A, seed 2 at the bottom of
+// Pool B, seeds 3 and 4 drawn into the two remaining quarters and seeds 5-8
+// drawn one per quarter.
+export function drawSeedQuarters(seedNumbers: number[], random: () => number): Map<number, Quarter> {
+  const thirdAndFourth = shuffle<Quarter>([1, 2], random);
+  const fifthToEighth = shuffle<Quarter>([0, 1, 2, 3], random);
+  const quarters = new Map<number, Quarter>();
+
+  for (const seed of seedNumbers) {
+    if (seed === 1) quarters.set(seed, 0);
+    else if (seed === 2) quarters.set(seed, 3);
+    else if (seed <= 4) quarters.set(seed, thirdAndFourth[seed - 3]);
+    else quarters.set(seed, fifthToEighth[seed - 5]);
+  }
+
+  return quarters;
+}
+
+// Group indexes of a pool in the order a seed in that quarter should take
+// them: the outer edge of the quarter first, then its inner edge, then the
+// rest of the quarter.
+function quarterPreference(groupCount: number, bottom: boolean): number[] {
+  const indexes = Array.from({ length: groupCount }, (_, i) => i)
+    .filter(i => quarterOf(i, groupCount) === (bottom ? 1 : 0));
+  if (bottom) {
+    indexes.reverse();
+  }
+  if (indexes.length > 1) {
+    indexes.splice(1, 0, indexes.pop()!);
+  }
+  return indexes;
+}
+
+// Free group head for a seed: its quarter first, then anywhere in the same
+// pool, then anywhere in the other pool.
+export function findSeedSlot(heads: (unknown | undefined)[][], quarter: Quarter): [number, number] | undefined {
+  const poolIndex = quarter < 2 ? 0 : 1;
+  const groupCount = heads[poolIndex].length;
+  const candidates: [number, number][] = [
+    ...quarterPreference(groupCount, quarter % 2 === 1).map(i => [poolIndex, i] as [number, number]),
+    ...heads[poolIndex].map((_, i) => [poolIndex, i] as [number, number]),
+    ...heads[1 - poolIndex].map((_, i) => [1 - poolIndex, i] as [number, number])
+  ];
+
+  return candidates.find(([pool, group]) => heads[pool][group] === undefined);
+}
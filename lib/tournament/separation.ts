@@ -0,0 +1,144 @@
+import { meetingRound, quarterOf } from './positions';
+import { shuffle } from './random';
+import type { Participant, Pool } from './types';
+
+// Stage at which two athletes in different pools can first meet
+const FINAL_STAGE = Number.MAX_SAFE_INTEGER;
+
+// Pages fall back to 'Unknown' when a player has no registered association;
+// those players are never treated as team-mates
+function hasAssociation(player: Participant): boolean {
+  return Boolean(player.association) && player.association !== 'Unknown';
+}
+
+// slots[pool][group][position]; undefined marks a free slot
+export type DrawSlots<P> = (P | undefined)[][][];
+
+// Earliest stage two slots can meet: 0 is the group bout, 1.. the pool
+// knockout rounds, FINAL_STAGE the championship final.
+function meetingStage(poolA: number, groupA: number, poolB: number, groupB: number): number {
+  return poolA === poolB ? meetingRound(groupA, groupB) : FINAL_STAGE;
+}
+
+// Lexicographic comparison of per-stage clash counts; fewer early clashes wins
+function compareCosts(a: Map<number, number>, b: Map<number, number>): number {
+  const stages = Array.from(new Set([...Array.from(a.keys()), ...Array.from(b.keys())])).sort((x, y) => x - y);
+  for (const stage of stages) {
+    const diff = (a.get(stage) || 0) - (b.get(stage) || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Fills the free slots so athletes from the same association are spread as
+// far apart as possible: different halves first, then quarters, then groups.
+// The largest associations are placed first; ties are broken by lot.
+export function placeBySeparation<P extends Participant>(
+  slots: DrawSlots<P>,
+  players: P[],
+  random: () => number
+): void {
+  const byAssociation = new Map<string, P[]>();
+  for (const player of shuffle(players, random)) {
+    byAssociation.set(player.association, [...(byAssociation.get(player.association) || []), player]);
+  }
+  const ordered = Array.from(byAssociation.values())
+    .sort((a, b) => b.length - a.length)
+    .flat();
+
+  for (const player of ordered) {
+    let best: [number, number, number][] = [];
+    let bestCost: Map<number, number> | undefined;
+
+    slots.forEach((groups, pool) => groups.forEach((group, groupIndex) => group.forEach((occupant, position) => {
+      if (occupant) return;
+
+      const cost = new Map<number, number>();
+      slots.forEach((otherGroups, otherPool) => otherGroups.forEach((otherGroup, otherGroupIndex) => {
+        for (const other of otherGroup) {
+          if (other && hasAssociation(player) && other.association === player.association) {
+            const stage = meetingStage(pool, groupIndex, otherPool, otherGroupIndex);
+            cost.set(stage, (cost.get(stage) || 0) + 1);
+          }
+        }
+      }));
+
+      const comparison = bestCost ? compareCosts(cost, bestCost) : -1;
+      if (comparison < 0) {
+        best = [[pool, groupIndex, position]];
+        bestCost = cost;
+      } else if (comparison === 0) {
+        best.push([pool, groupIndex, position]);
+      }
+    })));
+
+    const [pool, group, position] = best[Math.floor(random() * best.length)];
+    slots[pool][group][position] = player;
+  }
+}
+
+export interface AssociationConflict {
+  association: string;
+  level: 'group' | 'quarter' | 'half';
+  unit: string;
+  player_ids: string[];
+}
+
+// Clashes the draw could not avoid, finest level first: every group bout
+// between athletes of the same association, and every quarter or half holding
+// more of one association than an even spread would. A coarser conflict is
+// only reported when it involves athletes not already covered by a finer one.
+export function findAssociationConflicts<P extends Participant>(pools: Pool<P>[]): AssociationConflict[] {
+  const units: { level: AssociationConflict['level']; unit: string; players: P[] }[] = [];
+
+  for (const pool of pools) {
+    pool.groups.forEach(group => {
+      units.push({ level: 'group', unit: `Group ${group.name}`, players: group.players });
+    });
+  }
+  for (const pool of pools) {
+    [0, 1].forEach(quarter => {
+      const players = pool.groups
+        .filter((_, i) => quarterOf(i, pool.groups.length) === quarter)
+        .flatMap(group => group.players);
+      if (players.length > 0) {
+        units.push({ level: 'quarter', unit: `${pool.name} ${quarter === 0 ? 'top' : 'bottom'} quarter`, players });
+      }
+    });
+  }
+  for (const pool of pools) {
+    const players = pool.groups.flatMap(group => group.players);
+    if (players.length > 0) {
+      units.push({ level: 'half', unit: pool.name, players });
+    }
+  }
+
+  const totals = new Map<string, number>();
+  for (const player of pools.flatMap(pool => pool.groups.flatMap(group => group.players)).filter(hasAssociation)) {
+    totals.set(player.association, (totals.get(player.association) || 0) + 1);
+  }
+
+  const conflicts: AssociationConflict[] = [];
+  const reported = new Set<string>();
+
+  for (const level of ['group', 'quarter', 'half'] as const) {
+    const levelUnits = units.filter(unit => unit.level === level);
+    for (const { unit, players } of levelUnits) {
+      const byAssociation = new Map<string, P[]>();
+      for (const player of players.filter(hasAssociation)) {
+        byAssociation.set(player.association, [...(byAssociation.get(player.association) || []), player]);
+      }
+
+      byAssociation.forEach((members, association) => {
+        const evenSpread = level === 'group' ? 1 : Math.ceil((totals.get(association) || 0) / levelUnits.length);
+        const key = `${association}:${members.map(member => member.id).sort().join(',')}`;
+        if (members.length <= evenSpread || reported.has(key)) return;
+
+        reported.add(key);
+        conflicts.push({ association, level, unit, player_ids: members.map(member => member.id) });
+      });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,29 @@
+import { POOL_NAMES } from './pools';
+import { ROUND_ROBIN_POOL } from './round-robin';
+
+const poolName = (number: string) => POOL_NAMES[Number(number) - 1] || `Pool ${number}`;
+
+// Readable name for a stored match stage, e.g. "knockout-1.3-match4" becomes
+// "Pool A – Knockout Match 5" (knockout IDs do not carry the round). Stages
+// from the main event page, and anything else not generated by the engine,
+// are returned as they are.
+export function describeStage(matchStage: string): string {
+  const rules: [RegExp, (...parts: string[]) => string][] = [
+    [/^knockout-(\d+)\.\d+-match(\d+)$/, (pool, bout) => `${poolName(pool)} – Knockout Match ${Number(bout) + 1}`],
+    [/^repechage-(\d+)-match(\d+)$/, (pool, bout) => `${poolName(pool)} – Repechage ${Number(bout) + 1}`],
+    [/^bronze-(\d+)$/, pool => `${poolName(pool)} – Bronze Medal Bout`],
+    [/^round-robin-(\d+)\.(\d+)$/, (round, bout) => `${ROUND_ROBIN_POOL} – Round ${round} Bout ${bout}`],
+    [/^losers-(\d+)-match(\d+)$/, (round, bout) => `Losers Round ${round} Bout ${Number(bout) + 1}`],
+    [/^grand-final$/, () => 'Grand Final'],
+    [/^grand-final-reset$/, () => 'Grand Final (Reset)'],
+    [/^final$/, () => 'Championship Final'],
+    [/^third-place-(.+)$/, pool => `${pool} – Third Place`],
+    [/^(Pool [A-Z])-(\d+\.\d+)$/, (pool, group) => `${pool} – Group ${group}`]
+  ];
+
+  for (const [pattern, describe] of rules) {
+    const match = matchStage.match(pattern);
+    if (match) return describe(...match.slice(1));
+  }
+  return matchStage;
+}
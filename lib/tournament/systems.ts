@@ -0,0 +1,43 @@
+import { POOL_NAMES } from './pools';
+import type { CompetitionSystem } from './types';
+
+export const COMPETITION_SYSTEMS: { value: CompetitionSystem; label: string; description: string }[] = [
+  {
+    value: 'single_elimination',
+    label: 'Single elimination',
+    description: 'One loss and out; both semi-final losers take bronze'
+  },
+  {
+    value: 'pools_knockout',
+    label: 'Pools + knockout',
+    description: 'Pool A and Pool B knockouts, a final and a repechage for two bronzes'
+  },
+  {
+    value: 'round_robin',
+    label: 'Round robin',
+    description: 'Everyone meets everyone; for 2-5 entrants'
+  },
+  {
+    value: 'double_elimination',
+    label: 'Double elimination',
+    description: 'Two losses and out, with a losers bracket and a grand final'
+  }
+];
+
+export const DEFAULT_COMPETITION_SYSTEM: CompetitionSystem = 'pools_knockout';
+
+export function competitionSystemLabel(system: CompetitionSystem): string {
+  return COMPETITION_SYSTEMS.find(option => option.value === system)?.label || system;
+}
+
+// Single and double elimination draw the same two pools, but as the halves of
+// one bracket: the group bouts are its first round, not a pool group stage
+export function isEliminationSystem(system: CompetitionSystem): boolean {
+  return system === 'single_elimination' || system === 'double_elimination';
+}
+
+// "Pool A", or "Top Half" in an elimination bracket
+export function poolLabel(system: CompetitionSystem, poolName: string): string {
+  if (!isEliminationSystem(system)) return poolName;
+  return POOL_NAMES.indexOf(poolName) === 0 ? 'Top Half' : 'Bottom Half';
+}
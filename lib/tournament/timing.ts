@@ -0,0 +1,40 @@
+import type { AgeGroup } from './types';
+
+// minAge and maxAge are the ages athletes reach in the competition year (see
+// age-groups.ts); senior and veterans have no upper limit
+export const AGE_GROUPS: { value: AgeGroup; label: string; regulationTime: number; minAge: number; maxAge?: number }[] = [
+  { value: 'u15', label: 'Sub-junior (U15)', regulationTime: 120, minAge: 12, maxAge: 14 },
+  { value: 'u18', label: 'Cadet (U18)', regulationTime: 180, minAge: 15, maxAge: 17 },
+  { value: 'u21', label: 'Junior (U21)', regulationTime: 240, minAge: 18, maxAge: 20 },
+  { value: 'senior', label: 'Senior', regulationTime: 240, minAge: 18 },
+  { value: 'veterans', label: 'Veterans', regulationTime: 180, minAge: 35 }
+];
+
+export const DEFAULT_AGE_GROUP: AgeGroup = 'senior';
+
+// Regulation time of a bout in seconds: the sub-event's own setting, otherwise
+// the default for its age group
+export function regulationTime(subEvent: { age_group?: AgeGroup | null; bout_duration?: number | null }): number {
+  if (subEvent.bout_duration && subEvent.bout_duration > 0) return subEvent.bout_duration;
+  const ageGroup = AGE_GROUPS.find(group => group.value === (subEvent.age_group || DEFAULT_AGE_GROUP));
+  return ageGroup!.regulationTime;
+}
+
+export function ageGroupLabel(ageGroup: AgeGroup): string {
+  return AGE_GROUPS.find(group => group.value === ageGroup)?.label || ageGroup;
+}
+
+// 'regulation' while time is left; once it has run out the bout goes to golden
+// score if the scores are level, otherwise time is up
+export type ClockPhase = 'regulation' | 'golden_score' | 'time_up';
+
+export function clockPhase(elapsed: number, regulation: number, level: boolean): ClockPhase {
+  if (elapsed < regulation) return 'regulation';
+  return level ? 'golden_score' : 'time_up';
+}
+
+// e.g. "3:05"
+export function formatClock(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
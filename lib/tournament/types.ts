@@ -0,0 +1,161 @@
+// Shared shapes for the tournament engine. Pages pass their own richer player
+// types; the engine only relies on the fields below.
+
+export interface Participant {
+  id: string;
+  name: string;
+  association: string;
+  // Optional seeding (1 = top seed), e.g. last year's medallists
+  seed_number?: number | null;
+  // Withdrawn after bouts started, e.g. for not making weight. Their bouts go
+  // to the opponent by walkover; see isDoubleWalkover for two withdrawn athletes.
+  withdrawn?: boolean;
+}
+
+// A recorded bout, as stored in match_results / sub_event_match_results
+export interface MatchResult {
+  player1_id: string;
+  player2_id: string;
+  winner_id: string;
+  match_stage: string;
+  // Technical points of each athlete and the score sheet they came from
+  player1_score?: number | null;
+  player2_score?: number | null;
+  score_breakdown?: ScoreBreakdown | null;
+  duration_seconds?: number | null;
+  win_type?: WinType | null;
+  console_log?: ConsoleLogEntry[] | null;
+}
+
+// How a bout was won: on technical scores, on scores given for the opponent's
+// penalties, by the opponent's disqualification (Girrom), or by forfeit when
+// the opponent did not fight (walkover) or could not go on (medical withdrawal)
+export type WinType = 'technical' | 'penalty' | 'disqualification' | 'walkover' | 'medical_withdrawal';
+
+// Kurash technical scores: Halol is an outright win, Yonbosh and Chala are
+// the lesser scores
+export type ScoreKind = 'halol' | 'yonbosh' | 'chala';
+
+export type Athlete = 'player1' | 'player2';
+
+export interface ScoreEvent {
+  athlete: Athlete;
+  score: ScoreKind;
+}
+
+// Kurash penalties, in order of severity. Each one gives the opponent a score;
+// Girrom disqualifies the athlete.
+export type PenaltyKind = 'tanbeh' | 'dakki' | 'girrom';
+
+export interface PenaltyEvent {
+  athlete: Athlete;
+  penalty: PenaltyKind;
+}
+
+export type BoutEvent = ScoreEvent | PenaltyEvent;
+
+export interface BoutScore {
+  halol: number;
+  yonbosh: number;
+  chala: number;
+}
+
+// Stored with the bout in sub_event_match_results.score_breakdown
+export interface ScoreBreakdown {
+  player1: BoutScore;
+  player2: BoutScore;
+  // Scores and penalties in the order they were awarded
+  events: BoutEvent[];
+  // Seconds the bout was fought, from the bout clock, and whether it went to
+  // golden score
+  duration?: number;
+  goldenScore?: boolean;
+}
+
+// Age groups of the sub-events; each has its own regulation bout time
+export type AgeGroup = 'u15' | 'u18' | 'u21' | 'senior' | 'veterans';
+
+// What the table official can do on the scoring console. Awards are given to
+// a corner (jacket colour); a penalty is the athlete's next one in the
+// Tanbeh, Dakki, Girrom order.
+export type ConsoleAction =
+  | { kind: 'award'; jacket: Jacket; award: ScoreKind | 'penalty' | 'girrom' }
+  | { kind: 'undo' }
+  | { kind: 'clock' }
+  | { kind: 'confirm' }
+  // The athlete in `jacket` forfeits the bout; clicked, there is no key for it
+  | { kind: 'forfeit'; jacket: Jacket; winType: Extract<WinType, 'walkover' | 'medical_withdrawal'> };
+
+// One entry per input on the console, stored with the result
+export interface ConsoleLogEntry {
+  // The key pressed, 'click' for the mouse or 'palette' for the command palette
+  input: string;
+  // Milliseconds since the score sheet was opened, and seconds on the bout clock
+  at: number;
+  clock: number;
+  action?: ConsoleAction;
+  // False when the input did nothing, e.g. an unbound key or scoring after the bout ended
+  applied: boolean;
+}
+
+// What the scoring panel records for a bout. A walkover has no score sheet.
+export interface BoutOutcome {
+  winType: WinType;
+  breakdown: ScoreBreakdown | null;
+  // Every input on the scoring console, to reconstruct the result
+  log?: ConsoleLogEntry[];
+}
+
+// How a sub-event is contested. Single and double elimination use the same
+// two-half draw as pools + knockout; a round robin (2-5 entrants) has no bracket.
+export type CompetitionSystem = 'single_elimination' | 'pools_knockout' | 'round_robin' | 'double_elimination';
+
+export interface Group<P extends Participant = Participant> {
+  name: string;
+  players: P[];
+}
+
+export interface Pool<P extends Participant = Participant> {
+  name: string;
+  groups: Group<P>[];
+  // Group names in the order their winners enter the pool knockout
+  knockout: string[];
+}
+
+// Kurash bouts are fought in blue and green jackets (kurtka)
+export type Jacket = 'blue' | 'green';
+
+export type BoutJackets = Record<Athlete, Jacket>;
+
+export interface KnockoutMatch<P extends Participant = Participant> {
+  id: string;
+  round: number;
+  // Place of a pool knockout bout within its round, in bracket order
+  position?: number;
+  // player1 is called first
+  player1?: P;
+  player2?: P;
+  jackets: BoutJackets;
+  winner_id?: string;
+  stage: string;
+}
+
+export interface Bracket<P extends Participant = Participant> {
+  system: CompetitionSystem;
+  pools: Pool<P>[];
+  poolWinners: Record<string, P[]>;
+  // Knockout entrants by bracket position; undefined for a group not yet decided or an empty place
+  poolKnockoutSlots: Record<string, (P | undefined)[]>;
+  poolKnockoutMatches: Record<string, KnockoutMatch<P>[]>;
+  poolFinalWinners: Record<string, P | undefined>;
+  poolRepechageMatches: Record<string, KnockoutMatch<P>[]>;
+  bronzeMedallists: Record<string, P | undefined>;
+  finalMatch: KnockoutMatch<P> | null;
+  // Double elimination only: the losers bracket, its third place and the
+  // grand final (plus the reset bout when the losers-bracket winner wins it)
+  losersMatches: KnockoutMatch<P>[];
+  losersBronze?: P;
+  grandFinalMatches: KnockoutMatch<P>[];
+  champion?: P;
+  runnerUp?: P;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BOUT_JACKETS } from './jackets';
+import type { KnockoutMatch, Participant } from './types';
+import {
+  canWeighIn,
+  didNotMakeWeight,
+  getWithdrawalWalkovers,
+  isWithinCategory,
+  weighInStatus,
+  type WeighInAttempt
+} from './weigh-in';
+
+const window = { opens_at: '2026-05-10T07:00:00Z', closes_at: '2026-05-10T09:00:00Z', tolerance_kg: 0.5 };
+const during = new Date('2026-05-10T08:00:00Z');
+const after = new Date('2026-05-10T10:00:00Z');
+
+function attempt(passed: boolean): WeighInAttempt {
+  return { weight: 66, passed, weighed_at: '2026-05-10T07:30:00Z' };
+}
+
+describe('isWithinCategory', () => {
+  const category = { min_weight: 60, max_weight: 66 };
+
+  it('runs from just over the lower limit up to the upper limit', () => {
+    expect(isWithinCategory(66, category)).toBe(true);
+    expect(isWithinCategory(66.1, category)).toBe(false);
+    expect(isWithinCategory(60, category)).toBe(false);
+    expect(isWithinCategory(60.1, category)).toBe(true);
+  });
+
+  it('widens both limits by the tolerance', () => {
+    expect(isWithinCategory(66.5, category, 0.5)).toBe(true);
+    expect(isWithinCategory(59.6, category, 0.5)).toBe(true);
+    expect(isWithinCategory(66.6, category, 0.5)).toBe(false);
+  });
+
+  it('leaves a lower limit of 0 open', () => {
+    expect(isWithinCategory(30, { min_weight: 0, max_weight: 42 })).toBe(true);
+  });
+});
+
+describe('weighInStatus', () => {
+  it('allows a second check after a failed first one while the window is open', () => {
+    expect(weighInStatus([], window, during)).toBe('pending');
+    expect(weighInStatus([attempt(true)], window, during)).toBe('passed');
+    expect(weighInStatus([attempt(false)], window, during)).toBe('recheck');
+    expect(weighInStatus([attempt(false), attempt(true)], window, during)).toBe('passed');
+    expect(weighInStatus([attempt(false), attempt(false)], window, during)).toBe('failed');
+  });
+
+  it('fails a single failed check once the window has closed', () => {
+    expect(weighInStatus([attempt(false)], window, after)).toBe('failed');
+    expect(canWeighIn([attempt(false)], window, during)).toBe(true);
+    expect(canWeighIn([attempt(false)], window, after)).toBe(false);
+    expect(canWeighIn([attempt(true)], window, during)).toBe(false);
+  });
+
+  it('withdraws athletes who failed or were not weighed before the window closed', () => {
+    expect(didNotMakeWeight([], window, during)).toBe(false);
+    expect(didNotMakeWeight([], window, after)).toBe(true);
+    expect(didNotMakeWeight([attempt(false)], window, during)).toBe(false);
+    expect(didNotMakeWeight([attempt(false), attempt(false)], window, during)).toBe(true);
+    expect(didNotMakeWeight([attempt(true)], window, after)).toBe(false);
+  });
+});
+
+describe('getWithdrawalWalkovers', () => {
+  it('gives each open bout of a withdrawn athlete to the opponent', () => {
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(id => ({ id, name: id, association: '', seed_number: null }));
+    const bout = (id: string, player1: Participant, player2: Participant, winner_id?: string): KnockoutMatch<Participant> =>
+      ({ id, round: 1, player1, player2, jackets: BOUT_JACKETS, winner_id, stage: id });
+    const bouts = [
+      bout('open', { ...a, withdrawn: true }, b),
+      bout('decided', { ...c, withdrawn: true }, d, d.id),
+      bout('double', { ...a, withdrawn: true }, { ...c, withdrawn: true }),
+      bout('both in', b, d)
+    ];
+
+    expect(getWithdrawalWalkovers(bouts).map(({ bout, winner }) => [bout.id, winner.id])).toEqual([['open', 'b']]);
+  });
+});
@@ -0,0 +1,91 @@
+// Official weigh-in: each athlete is weighed against the limits of their
+// sub-event, with a tolerance set per event, and may be weighed a second time
+// while the weigh-in window is open.
+
+import type { KnockoutMatch, Participant } from './types';
+
+export const MAX_WEIGH_IN_ATTEMPTS = 2;
+
+// Upper limit of a category without one, such as the heavyweight
+export const OPEN_WEIGHT_LIMIT = 999;
+
+export interface WeightCategory {
+  min_weight: number;
+  max_weight: number;
+}
+
+export interface WeighInWindow {
+  opens_at: string;
+  closes_at: string;
+  // Kilograms allowed over the upper limit (and under the lower one)
+  tolerance_kg: number;
+}
+
+export interface WeighInAttempt {
+  weight: number;
+  passed: boolean;
+  weighed_at: string;
+}
+
+// pending: not weighed yet; recheck: failed the first check and may be
+// weighed again; failed: failed every check allowed
+export type WeighInStatus = 'pending' | 'passed' | 'recheck' | 'failed';
+
+export const WEIGH_IN_STATUS_LABELS: Record<WeighInStatus, string> = {
+  pending: 'Not weighed',
+  passed: 'Passed',
+  recheck: 'Failed – second check allowed',
+  failed: 'Failed weigh-in'
+};
+
+// A category runs from just over its lower limit up to and including its
+// upper limit; a lower limit of 0 is open
+export function isWithinCategory(weight: number, { min_weight, max_weight }: WeightCategory, tolerance = 0): boolean {
+  const min = min_weight ?? 0;
+  const max = max_weight ?? OPEN_WEIGHT_LIMIT;
+  return (min === 0 || weight > min - tolerance) && weight <= max + tolerance;
+}
+
+export function isWeighInOpen(window: WeighInWindow, at: Date = new Date()): boolean {
+  return at >= new Date(window.opens_at) && at <= new Date(window.closes_at);
+}
+
+export function isWeighInClosed(window: WeighInWindow, at: Date = new Date()): boolean {
+  return at > new Date(window.closes_at);
+}
+
+// Attempts in the order they were weighed
+export function weighInStatus(attempts: WeighInAttempt[], window: WeighInWindow, at: Date = new Date()): WeighInStatus {
+  const last = attempts[attempts.length - 1];
+  if (!last) return 'pending';
+  if (last.passed) return 'passed';
+  return attempts.length < MAX_WEIGH_IN_ATTEMPTS && !isWeighInClosed(window, at) ? 'recheck' : 'failed';
+}
+
+// Whether another weight can be recorded for the athlete now
+export function canWeighIn(attempts: WeighInAttempt[], window: WeighInWindow, at: Date = new Date()): boolean {
+  const status = weighInStatus(attempts, window, at);
+  return isWeighInOpen(window, at) && (status === 'pending' || status === 'recheck');
+}
+
+// Missed the weigh-in altogether, or failed it, so the athlete is withdrawn
+export function didNotMakeWeight(attempts: WeighInAttempt[], window: WeighInWindow, at: Date = new Date()): boolean {
+  const status = weighInStatus(attempts, window, at);
+  return status === 'failed' || (status === 'pending' && isWeighInClosed(window, at));
+}
+
+// Bouts an athlete withdrawn after the weigh-in was due to fight; the opponent
+// wins each by walkover. A bout between two withdrawn athletes is a double
+// walkover, which the bracket resolves itself by moving nobody forward.
+export function getWithdrawalWalkovers<P extends Participant>(
+  bouts: KnockoutMatch<P>[]
+): { bout: KnockoutMatch<P>; winner: P }[] {
+  return bouts.flatMap(bout => {
+    const { player1, player2 } = bout;
+    if (!player1 || !player2 || bout.winner_id) return [];
+    const out1 = Boolean(player1.withdrawn);
+    const out2 = Boolean(player2.withdrawn);
+    if (out1 === out2) return [];
+    return [{ bout, winner: out1 ? player2 : player1 }];
+  });
+}
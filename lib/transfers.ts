@@ -0,0 +1,159 @@
+import { supabase } from '@/lib/supabase';
+import { fetchStoredDraw, saveDraw } from '@/lib/draws';
+import {
+  getDrawSystem,
+  isInAgeGroup,
+  isWithinCategory,
+  makeDraw,
+  type AgeGroup,
+  type CompetitionDates,
+  type WeightCategory
+} from '@/lib/tournament';
+import { fetchOfficialWeights, fetchWeighIns, fetchWeighInSession } from '@/lib/weigh-ins';
+
+// A sub-event an athlete can be moved between; transfers stay within one event
+export interface TransferCategory extends WeightCategory, CompetitionDates {
+  id: string;
+  event_id: string;
+  title: string;
+  age_group?: AgeGroup | null;
+  dob_range?: string | null;
+}
+
+export interface TransferAthlete {
+  id: string;
+  name: string;
+  weight: number;
+  birth_date?: string;
+}
+
+// Why the athlete cannot move into the sub-event, or null if they can. The
+// official weight (with the event's tolerance) is used once they have been weighed.
+export function transferProblem(
+  athlete: TransferAthlete,
+  from: TransferCategory,
+  to: TransferCategory,
+  officialWeight?: number,
+  tolerance = 0
+): string | null {
+  if (to.id === from.id || to.event_id !== from.event_id) {
+    return 'Athletes can only be moved to another sub-event of the same event';
+  }
+  if (!isInAgeGroup(athlete.birth_date, to)) {
+    return `${athlete.name} is outside the age group of ${to.title}`;
+  }
+  const weight = officialWeight ?? athlete.weight;
+  if (!isWithinCategory(weight, to, officialWeight === undefined ? 0 : tolerance)) {
+    return `${weight} kg is outside ${to.title} (${to.min_weight} – ${to.max_weight} kg)`;
+  }
+  return null;
+}
+
+// Remakes an unlocked draw from the sub-event's current participants, with the
+// same seed and system. A locked draw is left alone: an athlete who left it is
+// dropped when the bracket is rebuilt.
+async function redrawAfterTransfer(subEventId: string): Promise<void> {
+  const stored = await fetchStoredDraw('sub_event', subEventId);
+  if (!stored || stored.locked_at) return;
+
+  const { data, error } = await supabase
+    .from('sub_event_participants')
+    .select(`
+      seed_number,
+      status,
+      player:players(id, first_name, last_name, registered_association)
+    `)
+    .eq('sub_event_id', subEventId);
+
+  if (error) {
+    throw new Error(`Failed to fetch participants: ${error.message}`);
+  }
+
+  const participants = (data || [])
+    .filter((row: any) => row.status !== 'did_not_weigh_in')
+    .map((row: any) => ({
+      id: row.player.id,
+      name: `${row.player.first_name || ''} ${row.player.last_name || ''}`.trim(),
+      association: row.player.registered_association || 'Unknown',
+      seed_number: row.seed_number ?? null
+    }));
+
+  await saveDraw('sub_event', subEventId, makeDraw(participants, stored.draw.seed, getDrawSystem(stored.draw)));
+}
+
+// Moves an athlete to a sibling sub-event after re-checking its weight limits
+// and age group. The participant row and the accepted sub-event application
+// (with its payment) move across, the athlete's weigh-ins are checked against
+// the new limits, and both draws are brought up to date.
+// Refused once the athlete has fought or when the new sub-event's draw is locked.
+export async function transferParticipant(
+  athlete: TransferAthlete,
+  from: TransferCategory,
+  to: TransferCategory
+): Promise<void> {
+  const { weights, tolerance } = await fetchOfficialWeights(from.event_id);
+  const problem = transferProblem(athlete, from, to, weights[athlete.id], tolerance);
+  if (problem) throw new Error(problem);
+
+  const { data: bouts, error: boutsError } = await supabase
+    .from('sub_event_match_results')
+    .select('id')
+    .eq('sub_event_id', from.id)
+    .or(`player1_id.eq.${athlete.id},player2_id.eq.${athlete.id}`)
+    .limit(1);
+
+  if (boutsError) {
+    throw new Error(`Failed to check results: ${boutsError.message}`);
+  }
+  if (bouts && bouts.length > 0) {
+    throw new Error(`${athlete.name} has already fought in ${from.title}`);
+  }
+
+  const targetDraw = await fetchStoredDraw('sub_event', to.id);
+  if (targetDraw?.locked_at) {
+    throw new Error(`The draw of ${to.title} is locked and can no longer be changed`);
+  }
+
+  // Seeds are per category, so the athlete arrives unseeded
+  const { error: participantError } = await supabase
+    .from('sub_event_participants')
+    .update({ sub_event_id: to.id, seed_number: null })
+    .eq('sub_event_id', from.id)
+    .eq('player_id', athlete.id);
+
+  if (participantError) {
+    throw new Error(`Failed to move participant: ${participantError.message}`);
+  }
+
+  // Moving the accepted application keeps its payment and stops the old
+  // sub-event from adding the athlete back
+  const { error: applicationError } = await supabase
+    .from('sub_event_applications')
+    .update({ sub_event_id: to.id })
+    .eq('sub_event_id', from.id)
+    .eq('player_id', athlete.id);
+
+  if (applicationError) {
+    throw new Error(`Failed to move application: ${applicationError.message}`);
+  }
+
+  const session = await fetchWeighInSession(from.event_id);
+  if (session) {
+    const weighIns = (await fetchWeighIns(session.id))
+      .filter(weighIn => weighIn.player_id === athlete.id && weighIn.sub_event_id === from.id);
+
+    for (const weighIn of weighIns) {
+      const { error } = await supabase
+        .from('weigh_ins')
+        .update({ sub_event_id: to.id, passed: isWithinCategory(weighIn.weight, to, session.tolerance_kg) })
+        .eq('id', weighIn.id);
+
+      if (error) {
+        throw new Error(`Failed to move weigh-in: ${error.message}`);
+      }
+    }
+  }
+
+  await redrawAfterTransfer(from.id);
+  await redrawAfterTransfer(to.id);
+}
@@ -0,0 +1,137 @@
+import { supabase } from '@/lib/supabase';
+import {
+  canWeighIn,
+  isWithinCategory,
+  type WeighInAttempt,
+  type WeighInWindow,
+  type WeightCategory
+} from '@/lib/tournament';
+
+// Whether a sub-event participant is still competing (sub_event_participants.status)
+export type ParticipantStatus = 'active' | 'did_not_weigh_in';
+
+// One weigh-in session per event (weigh_in_sessions)
+export interface WeighInSession extends WeighInWindow {
+  id: string;
+  event_id: string;
+  created_at: string;
+}
+
+// One official weighing of an athlete (weigh_ins)
+export interface WeighIn extends WeighInAttempt {
+  id: string;
+  session_id: string;
+  player_id: string;
+  sub_event_id: string | null;
+  attempt: number;
+}
+
+export async function fetchWeighInSession(eventId: string): Promise<WeighInSession | null> {
+  const { data, error } = await supabase
+    .from('weigh_in_sessions')
+    .select('*')
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch weigh-in session: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function saveWeighInSession(eventId: string, window: WeighInWindow): Promise<WeighInSession> {
+  const { data, error } = await supabase
+    .from('weigh_in_sessions')
+    .upsert({ event_id: eventId, ...window }, { onConflict: 'event_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save weigh-in session: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Every weighing of the session, oldest first
+export async function fetchWeighIns(sessionId: string): Promise<WeighIn[]> {
+  const { data, error } = await supabase
+    .from('weigh_ins')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('weighed_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch weigh-ins: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Records an official weight and whether it makes the category. Refused once
+// the window has closed or the athlete has passed or used both checks.
+export async function recordWeighIn(
+  session: WeighInSession,
+  previous: WeighIn[],
+  playerId: string,
+  subEventId: string | null,
+  category: WeightCategory,
+  weight: number
+): Promise<WeighIn> {
+  if (!canWeighIn(previous, session)) {
+    throw new Error('This athlete cannot be weighed again');
+  }
+
+  const { data, error } = await supabase
+    .from('weigh_ins')
+    .insert([{
+      session_id: session.id,
+      player_id: playerId,
+      sub_event_id: subEventId,
+      attempt: previous.length + 1,
+      weight,
+      passed: isWithinCategory(weight, category, session.tolerance_kg),
+      weighed_at: new Date().toISOString()
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record weigh-in: ${error.message}`);
+  }
+
+  return data;
+}
+
+// The latest official weight of each athlete weighed at the event, with the
+// event's tolerance; eligibility uses these in place of the registered weight
+export async function fetchOfficialWeights(eventId: string): Promise<{ weights: Record<string, number>; tolerance: number }> {
+  const session = await fetchWeighInSession(eventId);
+  if (!session) return { weights: {}, tolerance: 0 };
+
+  const weights: Record<string, number> = {};
+  for (const weighIn of await fetchWeighIns(session.id)) {
+    weights[weighIn.player_id] = weighIn.weight;
+  }
+  return { weights, tolerance: session.tolerance_kg };
+}
+
+// Withdraws an athlete who did not make weight from a sub-event. Before the
+// first bout they are also taken out of the draw; after it they stay in the
+// bracket and their opponents are given walkovers.
+export async function withdrawParticipant(subEventId: string, playerId: string, removeFromDraw: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('sub_event_participants')
+    .update({
+      status: 'did_not_weigh_in',
+      removed_from_draw: removeFromDraw,
+      withdrawn_at: new Date().toISOString()
+    })
+    .eq('sub_event_id', subEventId)
+    .eq('player_id', playerId);
+
+  if (error) {
+    throw new Error(`Failed to withdraw participant: ${error.message}`);
+  }
+}